@@ -0,0 +1,206 @@
+import {
+	Notice,
+	TFile,
+	moment,
+	normalizePath
+} from 'obsidian';
+
+import ImageCaptionPlugin from './main';
+import {
+	EmbedType,
+	IMAGE_EXTENSIONS,
+	SourceEmbed,
+	srcFilename
+} from './common';
+import { parseSourceFigures } from './reader_observer';
+
+
+// *************
+// *** types ***
+// *************
+
+/**
+ * Accessibility problems of an image.
+ */
+export enum ImageIssue {
+	NoCaption = 'no caption',
+	NoAltText = 'no alt text',
+	FilenameAltText = 'alt text is the file name',
+}
+
+
+/**
+ * An image with accessibility problems.
+ * + embed: Embed of the image.
+ * + issues: Problems found.
+ */
+export interface AuditEntry {
+	embed: SourceEmbed;
+	issues: ImageIssue[];
+}
+
+
+// *****************
+// *** constants ***
+// *****************
+
+/**
+ * Path of the report note.
+ */
+const REPORT_PATH = 'Image accessibility report.md';
+
+
+// *****************
+// *** functions ***
+// *****************
+
+/**
+ * Finds the images of a note lacking a caption or meaningful alt text.
+ *
+ * @param {SourceEmbed[]} embeds - Image embeds of the note, see parseSourceFigures.
+ * @param {(string | undefined)[]} captions - Caption of each embed, from any source.
+ * @param {(embed: SourceEmbed) => string | null} resolve - Gets the file name of an embed,
+ * 		or null if the embed is not an image.
+ * @returns {AuditEntry[]} Images with problems.
+ */
+export function auditImages(
+	embeds: SourceEmbed[],
+	captions: ( string | undefined )[],
+	resolve: ( embed: SourceEmbed ) => string | null
+): AuditEntry[] {
+	const entries: AuditEntry[] = [];
+	embeds.forEach( ( embed, index ) => {
+		const filename = resolve( embed );
+		if ( filename === null ) {
+			return;
+		}
+
+		const issues: ImageIssue[] = [];
+		const alt_text = embed.alt_text.trim();
+		if ( ! alt_text ) {
+			issues.push( ImageIssue.NoAltText );
+		}
+		else if ( isFilename( alt_text, filename ) ) {
+			issues.push( ImageIssue.FilenameAltText );
+		}
+
+		if ( ! captions[ index ]?.trim() ) {
+			issues.push( ImageIssue.NoCaption );
+		}
+
+		if ( issues.length ) {
+			entries.push( { embed, issues } );
+		}
+	} );
+
+	return entries;
+}
+
+
+/**
+ * @param {string} alt_text - Alt text of an image.
+ * @param {string} filename - File name of the image.
+ * @returns {boolean} Whether the alt text is the file name, with or without its extension.
+ */
+function isFilename( alt_text: string, filename: string ): boolean {
+	const name = filename.toLowerCase();
+	const basename = name.replace( /\.[^.]*$/, '' );
+	const text = alt_text.toLowerCase();
+	return text === name || text === basename;
+}
+
+
+/**
+ * Audits the images of notes and writes a report note
+ * listing the images with problems, with a link to the closest heading above each.
+ * Images are found and captioned as in the editor:
+ * from their alt text, the note's frontmatter, or the image's metadata.
+ *
+ * @param {ImageCaptionPlugin} plugin
+ * @param {TFile[]} files - Notes to audit.
+ * @returns {Promise<TFile>} Report note.
+ */
+export async function writeAuditReport(
+	plugin: ImageCaptionPlugin,
+	files: TFile[]
+): Promise<TFile> {
+	const { vault, metadataCache, fileManager } = plugin.app;
+	const report_path = normalizePath( REPORT_PATH );
+
+	const sections: string[] = [];
+	let total = 0;
+	for ( const file of files ) {
+		if ( file.path === report_path ) {
+			continue;
+		}
+
+		const resolve = ( embed: SourceEmbed ): string | null => {
+			if ( embed.embed_type === EmbedType.External ) {
+				return srcFilename( embed.src );
+			}
+
+			const link_path = embed.src.split( '#' )[ 0 ];
+			const target = metadataCache.getFirstLinkpathDest( link_path, file.path );
+			const extension = target ? target.extension : link_path.split( '.' ).pop();
+			if ( ! IMAGE_EXTENSIONS.contains( ( extension ?? '' ).toLowerCase() ) ) {
+				return null;
+			}
+
+			return target ? target.name : srcFilename( link_path );
+		};
+
+		const text = await vault.cachedRead( file );
+		const { embeds, captions } = parseSourceFigures( plugin, text, file.path );
+		const texts = await Promise.all( embeds.map( ( embed, index ) => {
+			const caption = captions[ index ]?.text;
+			return ( caption || embed.embed_type === EmbedType.External )
+				? caption
+				: plugin.metadata_captions.load( embed.src, file.path );
+		} ) );
+
+		const entries = auditImages( embeds, texts, resolve );
+		if ( ! entries.length ) {
+			continue;
+		}
+
+		total += entries.length;
+		const headings = metadataCache.getFileCache( file )?.headings ?? [];
+		const lines = entries.map( ( { embed, issues } ) => {
+			// link to the closest heading above the image, as lines can not be linked
+			const heading = headings.filter( h => h.position.start.line <= embed.line ).pop();
+			const link = fileManager.generateMarkdownLink(
+				file,
+				report_path,
+				heading ? `#${heading.heading}` : undefined,
+				`Line ${embed.line + 1}`
+			);
+
+			const source = text.slice( embed.from, embed.to );
+			return `- ${link} \`${source}\`: ${issues.join( ', ' )}`;
+		} );
+
+		sections.push(
+			`## ${fileManager.generateMarkdownLink( file, report_path )}\n\n${lines.join( '\n' )}`
+		);
+	}
+
+	const summary = `Audited ${files.length} note${files.length === 1 ? '' : 's'} `
+		+ `on ${moment().format( 'YYYY-MM-DD HH:mm' )}, `
+		+ `found ${total} image${total === 1 ? '' : 's'} with issues.`;
+
+	const report = [ '# Image accessibility report', summary, ...sections ].join( '\n\n' ) + '\n';
+
+	const existing = vault.getAbstractFileByPath( report_path );
+	let report_file;
+	if ( existing instanceof TFile ) {
+		await vault.modify( existing, report );
+		report_file = existing;
+	}
+	else {
+		report_file = await vault.create( report_path, report );
+	}
+
+	new Notice( `Found ${total} image${total === 1 ? '' : 's'} with issues.` );
+	await plugin.app.workspace.getLeaf( false ).openFile( report_file );
+	return report_file;
+}
@@ -0,0 +1,149 @@
+import {
+	TFile,
+	debounce
+} from 'obsidian';
+
+import ImageCaptionPlugin from './main';
+import {
+	CaptionFormat,
+	captionLinkpaths
+} from './common';
+import { parseSourceFigures } from './reader_observer';
+
+
+// ***************
+// *** classes ***
+// ***************
+
+/**
+ * Registers the links of Markdown captions with the metadata cache,
+ * so they are shown in the graph like the links of the note text.
+ * Obsidian does not index links in alt text or frontmatter captions,
+ * so they are added to a note's links each time Obsidian resolves the note.
+ */
+export class CaptionLinkIndex {
+	plugin: ImageCaptionPlugin;
+
+	/**
+	 * Link counts added to each note's record of links,
+	 * so they are not counted twice if the note is indexed again before Obsidian replaces the record.
+	 */
+	added: WeakMap<Record<string, number>, Record<string, number>>;
+
+	/**
+	 * Reindexes every note once the settings have settled.
+	 */
+	invalidate: () => void;
+
+	/**
+	 * @param {ImageCaptionPlugin} plugin
+	 */
+	constructor( plugin: ImageCaptionPlugin ) {
+		this.plugin = plugin;
+		this.added = new WeakMap();
+		this.invalidate = debounce(
+			() => this.build().catch( ( err ) => console.error( 'could not index caption links', err ) ),
+			1000,
+			true
+		);
+	}
+
+	/**
+	 * Registers metadata events to add the caption links of resolved notes.
+	 */
+	register() {
+		const { metadataCache, workspace } = this.plugin.app;
+		this.plugin.registerEvent(
+			metadataCache.on( 'resolve', ( file: TFile ) => {
+				this.indexNote( file ).catch( ( err ) => {
+					console.error( `could not index caption links of ${file.path}`, err );
+				} );
+			} )
+		);
+
+		// notes resolved before the plugin was loaded
+		workspace.onLayoutReady( () => this.invalidate() );
+	}
+
+	/**
+	 * Adds the caption links of every note.
+	 */
+	async build() {
+		for ( const file of this.plugin.app.vault.getMarkdownFiles() ) {
+			await this.indexNote( file );
+		}
+
+		// let the graph pick up the links
+		this.plugin.app.metadataCache.trigger( 'resolved' );
+	}
+
+	/**
+	 * Removes the added caption links of every note, e.g. when the plugin is unloaded.
+	 */
+	clear() {
+		const { resolvedLinks, unresolvedLinks } = this.plugin.app.metadataCache;
+		for ( const all_links of [ resolvedLinks, unresolvedLinks ] ) {
+			for ( const source_path of Object.keys( all_links ) ) {
+				this.addLinks( all_links, source_path, {} );
+			}
+		}
+	}
+
+	/**
+	 * Adds the links of a note's Markdown captions to its resolved and unresolved links,
+	 * replacing those added before.
+	 *
+	 * @param {TFile} file - Note to index.
+	 */
+	async indexNote( file: TFile ) {
+		const { vault, metadataCache } = this.plugin.app;
+		const resolved: Record<string, number> = {};
+		const unresolved: Record<string, number> = {};
+		if ( this.plugin.captionFormat( file.path ) === CaptionFormat.Markdown ) {
+			const text = await vault.cachedRead( file );
+			const { captions } = parseSourceFigures( this.plugin, text, file.path );
+			for ( const caption of captions ) {
+				for ( const path of captionLinkpaths( caption?.text ?? '' ) ) {
+					const dest = metadataCache.getFirstLinkpathDest( path, file.path );
+					const links = dest ? resolved : unresolved;
+					const key = dest ? dest.path : path;
+					links[ key ] = ( links[ key ] ?? 0 ) + 1;
+				}
+			}
+		}
+
+		this.addLinks( metadataCache.resolvedLinks, file.path, resolved );
+		this.addLinks( metadataCache.unresolvedLinks, file.path, unresolved );
+	}
+
+	/**
+	 * @param {Record<string, Record<string, number>>} all_links - Links of every note, by note path.
+	 * @param {string} source_path - Path of the note.
+	 * @param {Record<string, number>} counts - Caption link counts of the note, by link.
+	 */
+	addLinks(
+		all_links: Record<string, Record<string, number>>,
+		source_path: string,
+		counts: Record<string, number>
+	) {
+		const links = all_links[ source_path ];
+		if ( ! links ) {
+			return;
+		}
+
+		// remove the links added when the note was last indexed
+		const previous = this.added.get( links ) ?? {};
+		for ( const [ link, count ] of Object.entries( previous ) ) {
+			links[ link ] -= count;
+			if ( links[ link ] <= 0 ) {
+				delete links[ link ];
+			}
+		}
+
+		for ( const [ link, count ] of Object.entries( counts ) ) {
+			links[ link ] = ( links[ link ] ?? 0 ) + count;
+		}
+
+		this.added.set( links, counts );
+	}
+}
@@ -0,0 +1,109 @@
+import {
+	EditorView,
+	WidgetType
+} from '@codemirror/view';
+
+import { MarkdownRenderChild } from 'obsidian';
+
+import {
+	CaptionFormat,
+	CaptionPosition,
+	createCaption,
+	setCaptionLabel
+} from './common';
+
+
+/**
+ * Caption components of the rendered widgets.
+ * Kept by element, as the editor may pass the element of a widget to an equal one.
+ */
+const caption_children = new WeakMap<HTMLElement, MarkdownRenderChild>();
+
+
+/**
+ * Caption shown in Live Preview as a widget next to its image,
+ * so the editor keeps track of it instead of reading it as part of the line.
+ */
+export class FigureCaptionWidget extends WidgetType {
+	index: number;
+	text: string;
+	format: CaptionFormat;
+	source_path: string;
+	position: CaptionPosition;
+	label: string;
+	fig_num: string;
+	kind?: string;
+	prepare?: (caption: HTMLElement) => void;
+
+	/**
+	 * @param {number} index - Index of the captioned image in the document.
+	 * @param {string} text - Caption text, with the template applied.
+	 * @param {CaptionFormat} format - How the caption text is inserted.
+	 * @param {string} source_path - Path of the note containing the image.
+	 * @param {CaptionPosition} position - Where the caption is placed.
+	 * @param {string} label - Label preceding the caption text.
+	 * @param {string} fig_num - Figure number of the image.
+	 * @param {string} [kind] - Figure kind of the image.
+	 * @param {(caption: HTMLElement) => void} [prepare] - Called with each created caption element,
+	 * 		e.g. to handle its links.
+	 */
+	constructor(
+		index: number,
+		text: string,
+		format: CaptionFormat,
+		source_path: string,
+		position: CaptionPosition,
+		label: string,
+		fig_num: string,
+		kind?: string,
+		prepare?: (caption: HTMLElement) => void
+	) {
+		super();
+
+		this.index = index;
+		this.text = text;
+		this.format = format;
+		this.source_path = source_path;
+		this.position = position;
+		this.label = label;
+		this.fig_num = fig_num;
+		this.kind = kind;
+		this.prepare = prepare;
+	}
+
+	toDOM(view: EditorView): HTMLElement {
+		const child = createCaption(this.text, this.format, this.source_path);
+		const caption = child.containerEl;
+		caption.addClasses(['image-caption-widget', `image-caption-widget-${this.position}`]);
+		caption.setAttribute('data-image-caption-fignum', this.fig_num);
+		if (this.kind) {
+			caption.setAttribute('data-image-caption-kind', this.kind);
+		}
+
+		setCaptionLabel(caption, this.label);
+		this.prepare?.(caption);
+
+		child.load();
+		caption_children.set(caption, child);
+
+		return caption;
+	}
+
+	eq(other: FigureCaptionWidget): boolean {
+		return (
+			(other.index === this.index)
+			&& (other.text === this.text)
+			&& (other.format === this.format)
+			&& (other.source_path === this.source_path)
+			&& (other.position === this.position)
+			&& (other.label === this.label)
+			&& (other.fig_num === this.fig_num)
+			&& (other.kind === this.kind)
+		);
+	}
+
+	destroy(dom: HTMLElement) {
+		caption_children.get(dom)?.unload();
+		caption_children.delete(dom);
+	}
+}
@@ -1,26 +1,427 @@
 import {
-	MarkdownRenderChild
+	App,
+	Component,
+	Keymap,
+	MarkdownRenderChild,
+	MarkdownRenderer,
+	getLinkpath,
+	parseYaml
 } from 'obsidian';
 
 import ImageCaptionPlugin from './main';
+import { sanitizeHtml } from './sanitizer';
 
 
 // *************
 // *** types ***
 // *************
 
+/**
+ * A length with its CSS unit.
+ * An empty unit indicates pixels.
+ */
+export interface Dimension {
+	value: number;
+	unit: string;
+}
+
+
+/**
+ * Desired dimensions of an image.
+ * Undefined dimensions are sized automatically.
+ */
 export interface ImageSize {
-	width: number;
-	height: number;
+	width?: Dimension;
+	height?: Dimension;
+	max_width?: Dimension;
+	max_height?: Dimension;
 }
 
 
 export interface ParsedCaption {
 	text?: string;
 	size?: ImageSize;
+	label?: string;
+	kind?: string;
+	position?: CaptionPosition;
+	align?: ImageAlign;
+	id?: string;
+	classes?: string[];
+	attributes?: Record<string, string>;
+}
+
+
+/**
+ * A Pandoc style attribute block, e.g. `{#fig:id .wide width=60%}`.
+ * 
+ * + id: Identifier of the figure, also used as its label.
+ * + classes: Classes of the figure.
+ * + attributes: Key-value attributes of the figure.
+ */
+export interface ParsedAttributes {
+	id?: string;
+	classes: string[];
+	attributes: Record<string, string>;
+}
+
+
+/**
+ * A category of figure with its own label and counter.
+ * 
+ * + name: Tag used to select the kind in alt text, e.g. `#diagram`.
+ * + label: Text prepended to captions, `#` is replaced by the figure number.
+ * + reference: Text displayed for references, `#` is replaced by the figure number.
+ */
+export interface FigureKind {
+	name: string;
+	label: string;
+	reference: string;
+}
+
+
+/**
+ * Information needed to number a figure.
+ * 
+ * + section: Number of the section containing the figure, e.g. 2.1,
+ *     empty before the first heading.
+ * + kind: Name of the figure's kind, or undefined for the default kind.
+ * + grouped: Whether the image is a subfigure of the same figure as the previous image.
+ */
+export interface FigureInfo {
+	section: string;
+	kind?: string;
+	grouped?: boolean;
+}
+
+
+/**
+ * Number and kind of a labeled figure.
+ */
+export interface FigureTarget {
+	fig_num: string;
+	kind?: string;
+}
+
+
+/**
+ * A numbered figure of a note, used to list and navigate figures.
+ * 
+ * + src: Image source.
+ * + caption: Caption text, if it exists.
+ * + kind: Name of the figure's kind, if it has one.
+ * + label: Label of the figure, if it exists.
+ * + fig_num: Figure number.
+ * + line: Line of the note the image is on.
+ * + embed_type: Type of embed.
+ */
+export interface FigureEntry {
+	src: string;
+	caption?: string;
+	kind?: string;
+	label?: string;
+	fig_num: string;
+	line: number;
+	embed_type: EmbedType;
+}
+
+
+/**
+ * An embed found in markdown source.
+ * 
+ * + src: Embed source, either the link target or URL.
+ * + alt_text: Alt text of the embed, empty if none.
+ * + line: Line number of the embed.
+ * + from: Offset of the start of the embed in the source.
+ * + to: Offset of the end of the embed in the source.
+ * + section: Number of the section containing the embed, empty before the first heading.
+ * + embed_type: Type of embed.
+ */
+export interface SourceEmbed {
+	src: string;
+	alt_text: string;
+	line: number;
+	from: number;
+	to: number;
+	section: string;
+	embed_type: EmbedType;
+}
+
+
+/**
+ * A problem found in caption syntax.
+ * 
+ * + from: Offset of the start of the problem in the alt text.
+ * + to: Offset of the end of the problem in the alt text.
+ * + message: Description of the problem.
+ */
+export interface CaptionDiagnostic {
+	from: number;
+	to: number;
+	message: string;
+}
+
+
+/**
+ * Values of the variables available to caption templates,
+ * in addition to the caption itself.
+ * 
+ * + filename: File name of the image.
+ * + basename: File name of the image without its extension.
+ * + note: Name of the note containing the image.
+ * + index: Figure number of the image.
+ * + date: Modification date of the image file, empty if not known.
+ */
+export interface TemplateVariables {
+	filename: string;
+	basename: string;
+	note: string;
+	index: string;
+	date: string;
+}
+
+
+/**
+ * Alt text with its attribute block removed, as the caption is parsed from.
+ * 
+ * + text: Alt text without the attribute block.
+ * + block: Removed attribute block, empty if none.
+ * + block_index: Offset of the attribute block in the alt text.
+ * + offset: Length of the figure kind prefix of the text.
+ */
+interface AltTextParts {
+	text: string;
+	block: string;
+	block_index: number;
+	offset: number;
+}
+
+
+/**
+ * Type of embed.
+ */
+export enum EmbedType {
+	Internal = 'internal',
+	External = 'external',
+}
+
+
+/**
+ * Where the caption of an image comes from.
+ * 
+ * + AltText: Caption is parsed from the image's alt text.
+ * + Frontmatter: Caption is defined in the note's frontmatter.
+ * + Metadata: Caption is the description embedded in the image file.
+ */
+export enum CaptionSource {
+	AltText = 'alt-text',
+	Frontmatter = 'frontmatter',
+	Metadata = 'metadata',
+}
+
+
+/**
+ * How caption text is inserted.
+ * 
+ * + Text: Caption is inserted as plain text.
+ * + Html: Caption is inserted as sanitized HTML.
+ * + Markdown: Caption is rendered as Obsidian Markdown.
+ */
+export enum CaptionFormat {
+	Text = 'text',
+	Html = 'html',
+	Markdown = 'markdown',
+}
+
+
+/**
+ * Where the caption is placed relative to the image.
+ */
+export enum CaptionPosition {
+	Above = 'above',
+	Below = 'below',
+	Left = 'left',
+	Right = 'right',
+}
+
+
+/**
+ * How the captioned image is laid out in the note.
+ */
+export enum ImageAlign {
+	Left = 'left',
+	Center = 'center',
+	Right = 'right',
+	FloatLeft = 'float-left',
+	FloatRight = 'float-right',
+}
+
+
+/**
+ * How figures are numbered.
+ * 
+ * + Flat: Figures are numbered sequentially through the note.
+ * + Section: Figures are numbered within their section, prefixed by the section number.
+ */
+export enum NumberingMode {
+	Flat = 'flat',
+	Section = 'section',
+}
+
+
+/**
+ * How figure numbers are written.
+ * Values match the CSS list style types.
+ */
+export enum NumberStyle {
+	Arabic = 'decimal',
+	UpperRoman = 'upper-roman',
+	LowerRoman = 'lower-roman',
+	UpperAlpha = 'upper-alpha',
+	LowerAlpha = 'lower-alpha',
 }
 
 
+// *****************
+// *** constants ***
+// *****************
+
+/**
+ * Matches an ATX heading, also within a blockquote, capturing its level markers.
+ */
+const HEADING_PATTERN = /^(?:\s*>)*\s{0,3}(#{1,6})(?:\s|$)/;
+
+/**
+ * Matches the underline of a Setext heading, capturing its marker.
+ */
+const SETEXT_PATTERN = /^ {0,3}(=+|-+)\s*$/;
+
+/**
+ * Matches the opening or closing of a fenced code block, capturing its fence.
+ */
+const FENCE_PATTERN = /^(?:\s*>)*\s*(`{3,}|~{3,})/;
+
+/**
+ * Matches a line indented enough to be an indented code block.
+ */
+const INDENTED_CODE_PATTERN = /^(?: {4}|\t)/;
+
+/**
+ * Matches the start of a list item.
+ */
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|\d+[.)])(?:\s|$)/;
+
+/**
+ * Matches an inline code span.
+ */
+const CODE_SPAN_PATTERN = /(`+)(?!`).*?(?<!`)\1(?!`)/g;
+
+/**
+ * Matches a single attribute of an attribute block:
+ * an id (#<id>), class (.<class>), or key-value pair (<key>=<value>).
+ */
+const ATTRIBUTE_PATTERN = '(?:[#.][\\w:.-]+|[\\w-]+=(?:"[^"]*"|\'[^\']*\'|[^\\s"\'}]+))';
+
+/**
+ * Matches the text between two images of the same paragraph.
+ */
+const PARAGRAPH_GAP_PATTERN = /^[ \t]*(?:\r?\n[ \t]*)?$/;
+
+/**
+ * Matches the YAML frontmatter at the start of a note, capturing its content.
+ */
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Matches a caption template variable of the form {<name>}, capturing its name.
+ */
+const TEMPLATE_VARIABLE_PATTERN = /\{(caption|filename|basename|note|index|date)\}/g;
+
+/**
+ * Matches a Pandoc style attribute block, e.g. {#fig:id .wide width=60%}.
+ * A figure label of the form {#<label>} is an attribute block with only an id.
+ */
+const ATTRIBUTE_BLOCK_PATTERN = new RegExp(
+	`\\s*\\{\\s*(${ATTRIBUTE_PATTERN}(?:\\s+${ATTRIBUTE_PATTERN})*)\\s*\\}`
+);
+
+/**
+ * Matches a figure kind tag of the form #<kind> at the start of alt text.
+ */
+const KIND_PATTERN = /^\s*#([A-Za-z][\w-]*)(\s+|$)/;
+
+/**
+ * Matches a valid figure kind name.
+ */
+export const KIND_NAME_PATTERN = /^[A-Za-z][\w-]*$/;
+
+/**
+ * Matches a single dimension, capturing its value and unit.
+ * `ex` is not supported as it is ambiguous with the `x` separator.
+ */
+const DIMENSION_PATTERN = '(\\d+(?:\\.\\d+)?)(px|%|em|rem|vw|vh|pt|cm|mm|in|ch)?';
+
+/**
+ * Matches a size token of the form <width>x<height>, either of which may be auto.
+ */
+const SIZE_PATTERN = new RegExp(
+	`^(?:${DIMENSION_PATTERN}|auto)x(?:${DIMENSION_PATTERN}|auto)$`, 'i'
+);
+
+/**
+ * Matches a width-only size token, e.g. 300, 50%, or 20em.
+ */
+const WIDTH_PATTERN = new RegExp( `^${DIMENSION_PATTERN}$`, 'i' );
+
+/**
+ * Matches a maximum size token of the form max<width>[x<height>].
+ */
+const MAX_SIZE_PATTERN = new RegExp(
+	`^max(?:${DIMENSION_PATTERN}|auto)(?:x(?:${DIMENSION_PATTERN}|auto))?$`, 'i'
+);
+
+/**
+ * Matches tokens that look like an attempted size, i.e. starting with a number,
+ * `max` followed by a number or `auto`, or `auto` followed by the `x` separator.
+ */
+const SIZE_LIKE_PATTERN = /^(?:\d|max(?:\d|auto)|autox)/i;
+
+/**
+ * Matches a caption position keyword of the form caption-<position>.
+ */
+const POSITION_PATTERN = /(?:^|\s)caption-(above|below|left|right)(?=\s|$)/i;
+
+/**
+ * Matches an alignment keyword of the form align-<left|center|right> or float-<left|right>,
+ * capturing the alignment.
+ */
+const ALIGN_PATTERN = /(?:^|\s)(?:align-(left|center|right)|(float-left|float-right))(?=\s|$)/i;
+
+/**
+ * Matches a plain alignment keyword, only recognized next to a delimited caption.
+ */
+const PLAIN_ALIGN_PATTERN = /(?:^|\s)(left|center|right)(?=\s|$)/i;
+
+/**
+ * File extensions Obsidian embeds as images.
+ */
+export const IMAGE_EXTENSIONS = [ 'png', 'jpg', 'jpeg', 'gif', 'bmp', 'svg', 'webp' ];
+
+/**
+ * Matches a figure reference of the form @<label> in note text.
+ */
+export const REFERENCE_PATTERN = /(?<![\w@])@([\w:.-]*\w)/g;
+
+/**
+ * Matches wikilinks and Markdown links in caption text, capturing their target.
+ */
+const LINK_PATTERN = /\[\[([^\]|]+)(?:\|[^\]]*)?\]\]|\[[^\]]*\]\((<[^>]*>|[^)\s]+)[^)]*\)/g;
+
+/**
+ * Matches the scheme of an external URL.
+ */
+const URL_SCHEME_PATTERN = /^[a-z][a-z\d+.-]*:/i;
+
+
 // *****************
 // *** functions ***
 // *****************
@@ -50,17 +451,75 @@ export function closestSibling(
 }
 
 /**
- * Parses text to extract the caption and size for the image.
+ * Parses a delimeter setting.
+ * Start and end delimeters are separated by a comma.
+ * 
+ * @param {string} value - Delimeter setting, e.g. "<, >".
+ * @returns {string[] | null} Delimeter(s), empty if none is specified,
+ * 		or null if the setting is invalid.
+ */
+export function parseDelimeter( value: string ): string[] | null {
+	const delimeters = value.split( ',' ).map( d => d.trim() );
+	if ( delimeters.length > 2 ) {
+		// too many delimeters
+		return null;
+	}
+
+	if ( delimeters.length === 2 && delimeters.some( d => !d ) ) {
+		// empty delimeter
+		return null;
+	}
+
+	if ( delimeters.length === 1 && delimeters[ 0 ] === '' ) {
+		// no delimeter specified
+		return [];
+	}
+
+	return delimeters;
+}
+
+
+/**
+ * Parses text to extract the caption, size, label, kind, layout,
+ * and attributes for the image.
+ * Known keys of an attribute block override the other syntax:
+ * + width, height, max-width, max-height: Image size.
+ * + caption-position: Caption position, also accepting top and bottom.
+ * + align: Image alignment.
  * 
  * @param text {string} Text to parse.
  * @param delimeter {string[]} Delimeter(s) used to indeicate caption text.
- * @returns { { caption: string, size?: ImageSize } }
- * 		An obect containing the caption text and size.
+ * @param kinds {string[]} Names of the defined figure kinds.
+ * 		Only tags matching a defined kind are treated as the figure kind.
+ * @returns {ParsedCaption} An obect containing the caption text, size, label, kind,
+ * 		layout, and attributes.
  */
-export function parseCaptionText( text: string, delimeter: string[] ): ParsedCaption | null {
+export function parseCaptionText(
+	text: string,
+	delimeter: string[],
+	kinds: string[] = []
+): ParsedCaption | null {
     if ( ! text ) {
         return null;
     }
+
+	// attributes
+	let attrs: ParsedAttributes = { classes: [], attributes: {} };
+	const attrs_match = text.match( ATTRIBUTE_BLOCK_PATTERN );
+	if ( attrs_match ) {
+		attrs = parseAttributes( attrs_match[ 1 ] );
+		text = text.replace( attrs_match[ 0 ], '' );
+	}
+
+	const label = attrs.id;
+
+	// kind
+	let kind;
+	const kind_match = text.match( KIND_PATTERN );
+	if ( kind_match && kinds.contains( kind_match[ 1 ] ) ) {
+		kind = kind_match[ 1 ];
+		text = text.slice( kind_match[ 0 ].length );
+	}
 	
     let start, end;
 	let start_delim, end_delim;
@@ -91,7 +550,10 @@ export function parseCaptionText( text: string, delimeter: string[] ): ParsedCap
 		// error
 		return {
 			text: undefined,
-			size: undefined
+			size: undefined,
+			label,
+			kind,
+			...attrs
 		};
 	}
 
@@ -117,95 +579,1440 @@ export function parseCaptionText( text: string, delimeter: string[] ): ParsedCap
 		];
 	}
 
-	// size
-	let size = parseSize( remaining_text[ 0 ] );
+	// size, bare numbers are only sizes next to a delimited caption
+	const delimited = ( caption !== undefined );
+	let size = parseSize( remaining_text[ 0 ], delimited );
 	if ( ! size && remaining_text[ 1 ] ) {
-		size = parseSize( remaining_text[ 1 ] );
+		size = parseSize( remaining_text[ 1 ], delimited );
+	}
+
+	// position
+	let position = parsePosition( remaining_text[ 0 ] );
+	if ( ! position && remaining_text[ 1 ] ) {
+		position = parsePosition( remaining_text[ 1 ] );
+	}
+
+	// alignment, plain keywords are only alignments next to a delimited caption
+	let align = parseAlign( remaining_text[ 0 ], delimited );
+	if ( ! align && remaining_text[ 1 ] ) {
+		align = parseAlign( remaining_text[ 1 ], delimited );
+	}
+
+	// known attributes
+	const attr_size = attributeSize( attrs.attributes );
+	if ( attr_size ) {
+		size = { ...size, ...attr_size };
 	}
 
-	return { text: caption, size };
+	const attr_position = attributePosition( attrs.attributes[ 'caption-position' ] );
+	if ( attr_position ) {
+		position = attr_position;
+	}
+
+	const attr_align = attributeAlign( attrs.attributes[ 'align' ] );
+	if ( attr_align ) {
+		align = attr_align;
+	}
+
+	return { text: caption, size, label, kind, position, align, ...attrs };
 } 
 
 
 /**
- * Searches for a size parameter of the form
- * <width>x<height> returning the parameters if found.
+ * Replaces the caption text of alt text, keeping the delimeters,
+ * figure kind, size, layout keywords, and attribute block.
+ * If the alt text has no caption, one is added after the figure kind.
  * 
- * @param {string} text - Text to parse.
- * @returns {ImageSize|undefined} - Object representing the image size,
- * 		or undefined if not found.
+ * @param text {string} Alt text of the image.
+ * @param caption {string} New caption text.
+ * @param delimeter {string[]} Delimeter(s) used to indicate caption text.
+ * @param kinds {string[]} Names of the defined figure kinds.
+ * @returns {string | null} Alt text with the new caption,
+ * 		or null if the delimeter setting is invalid.
  */
-export function parseSize( text: string ): ImageSize {
-	if ( ! text ) {
-		return undefined;
+export function replaceCaptionText(
+	text: string,
+	caption: string,
+	delimeter: string[],
+	kinds: string[] = []
+): string | null {
+	if ( delimeter.length > 2 ) {
+		return null;
 	}
 
-	const size_pattern = /(\d+|auto)x(\d+|auto)/i;
-	const match = text.match( size_pattern );
-	if ( ! match ) {
-		return undefined;
+	const start_delim = delimeter[ 0 ] ?? '';
+	const end_delim = delimeter[ 1 ] ?? start_delim;
+
+	const parts = splitAltText( text, kinds );
+	const { block, block_index, offset } = parts;
+	const rest = parts.text.slice( offset );
+
+	let start, end;
+	if ( ! start_delim ) {
+		start = offset;
+		end = parts.text.length;
+	}
+	else {
+		start = rest.indexOf( start_delim );
+		end = rest.lastIndexOf( end_delim );
+		if ( start === -1 || end === -1 || start === end ) {
+			// no caption yet
+			const insert = `${start_delim}${caption}${end_delim}${rest.trim() ? ' ' : ''}`;
+			const pos = sourceIndex( parts, offset );
+			return text.slice( 0, pos ) + insert + text.slice( pos );
+		}
+
+		start += offset + start_delim.length;
+		end += offset;
+	}
+
+	if ( start < block_index && block_index < end ) {
+		// keep an attribute block from inside the caption
+		caption += block;
 	}
 
-    let width = parseInt(match[1]);
-    let height = parseInt(match[2]);
-	return { width, height };
+	const from = sourceIndex( parts, start );
+	const to = sourceIndex( parts, end, true );
+	return text.slice( 0, from ) + caption + text.slice( to );
 }
 
 
 /**
- * Adds a caption to an image.
+ * Finds text that can not be written into the alt text of an image as a caption,
+ * because it would end the embed or the caption early.
  * 
- * @param {HTMLElement} target - Parent element for the caption.
- * @param {string} caption_text - Text to add for the caption.
- * @param {boolean} [asHtml=false] - Insert caption text as HTML rather than text.
- * @returns {MarkdownRenderChild} - Caption element that was added to the target as the caption.
+ * @param caption {string} New caption text.
+ * @param embed_type {EmbedType} Type of the image embed.
+ * @param delimeter {string[]} Delimeter(s) used to indicate caption text.
+ * @returns {string | null} The first conflicting text found,
+ * 		or null if the caption can be written as is.
  */
-export function addCaption(
-	target: HTMLElement,
-	caption_text: string,
-	asHtml: boolean = false
-): MarkdownRenderChild {
-	const caption = document.createElement( ImageCaptionPlugin.caption_tag );
-	caption.addClass( ImageCaptionPlugin.caption_class );
-	if ( asHtml ) {
-		caption.innerHTML = caption_text;
+export function captionConflict(
+	caption: string,
+	embed_type: EmbedType,
+	delimeter: string[]
+): string | null {
+	const reserved = ( embed_type === EmbedType.Internal )
+		? [ ']]', '|' ]
+		: [ '[', ']' ];
+
+	for ( const delim of delimeter ) {
+		if ( delim && ! reserved.contains( delim ) ) {
+			reserved.push( delim );
+		}
 	}
-	else{
-		caption.innerText = caption_text;
+
+	return reserved.find( ( value ) => caption.contains( value ) ) ?? null;
+}
+
+
+/**
+ * Finds problems in caption syntax that parsing silently ignores:
+ * unclosed delimeters, invalid size tokens, and repeated size tokens.
+ * 
+ * @param text {string} Alt text of the image.
+ * @param delimeter {string[]} Delimeter(s) used to indicate caption text.
+ * @param kinds {string[]} Names of the defined figure kinds.
+ * @returns {CaptionDiagnostic[]} Problems found, with offsets into the alt text.
+ */
+export function captionDiagnostics(
+	text: string,
+	delimeter: string[],
+	kinds: string[] = []
+): CaptionDiagnostic[] {
+	if ( ! text || delimeter.length === 0 || delimeter.length > 2 ) {
+		// without delimeters the entire text is the caption
+		return [];
 	}
 
-	target.appendChild( caption );
+	const diagnostics: CaptionDiagnostic[] = [];
+	const parts = splitAltText( text, kinds );
+	const rest = parts.text.slice( parts.offset );
+	const add = ( from: number, length: number, message: string ) => {
+		from += parts.offset;
+		diagnostics.push( {
+			from: sourceIndex( parts, from ),
+			to: sourceIndex( parts, from + length, true ),
+			message
+		} );
+	};
 
-	const style = getComputedStyle(target);
-	if ( style.getPropertyValue('display') == 'inline' ) {
-		target.style.display = 'inline-block';
+	// delimeters
+	const start_delim = delimeter[ 0 ];
+	const end_delim = delimeter[ 1 ] ?? start_delim;
+	const start = rest.indexOf( start_delim );
+	const end = rest.lastIndexOf( end_delim );
+
+	// size tokens are only checked next to a delimited caption, as the parser only reads them there
+	let segments: [ number, string ][];
+	if ( start !== -1 && start === end ) {
+		add( start, start_delim.length, `Caption delimeter \`${start_delim}\` is never closed, so the caption is ignored.` );
+		segments = [];
+	}
+	else if ( start !== -1 && end === -1 ) {
+		add( start, start_delim.length, `Caption start delimeter \`${start_delim}\` has no end delimeter \`${end_delim}\`, so the caption is ignored.` );
+		segments = [];
+	}
+	else if ( end !== -1 && ( start === -1 || end < start ) ) {
+		add( end, end_delim.length, `Caption end delimeter \`${end_delim}\` has no start delimeter \`${start_delim}\`, so the caption is ignored.` );
+		segments = [];
+	}
+	else if ( start === -1 ) {
+		segments = [];
+	}
+	else {
+		const after = end + end_delim.length;
+		segments = [ [ 0, rest.slice( 0, start ) ], [ after, rest.slice( after ) ] ];
 	}
 
-	target.addClass('image-caption-captioned');
+	// size tokens
+	let has_size = false;
+	let has_max = false;
+	for ( const [ seg_offset, segment ] of segments ) {
+		for ( const match of segment.matchAll( /\S+/g ) ) {
+			const token = match[ 0 ];
+			const from = seg_offset + match.index;
+			if ( SIZE_PATTERN.test( token ) || WIDTH_PATTERN.test( token ) ) {
+				if ( has_size ) {
+					add( from, token.length, `Only the first size is used, \`${token}\` is ignored.` );
+				}
+
+				has_size = true;
+			}
+			else if ( MAX_SIZE_PATTERN.test( token ) ) {
+				if ( has_max ) {
+					add( from, token.length, `Only the first maximum size is used, \`${token}\` is ignored.` );
+				}
+
+				has_max = true;
+			}
+			else if ( SIZE_LIKE_PATTERN.test( token ) ) {
+				add( from, token.length, `\`${token}\` is not a valid size, e.g. 300, 300x200, 50%, or max400.` );
+			}
+		}
+	}
 
-	return new MarkdownRenderChild( caption );
+	return diagnostics;
+}
+
+
+/**
+ * Removes the attribute block and finds the figure kind prefix of alt text,
+ * as parseCaptionText does.
+ * 
+ * @param text {string} Alt text of the image.
+ * @param kinds {string[]} Names of the defined figure kinds.
+ * @returns {AltTextParts} Alt text without its attribute block.
+ */
+function splitAltText( text: string, kinds: string[] ): AltTextParts {
+	let inner = text;
+	let block = '';
+	let block_index = text.length;
+	const attrs_match = text.match( ATTRIBUTE_BLOCK_PATTERN );
+	if ( attrs_match ) {
+		block = attrs_match[ 0 ];
+		block_index = attrs_match.index;
+		inner = text.slice( 0, block_index ) + text.slice( block_index + block.length );
+	}
+
+	let offset = 0;
+	const kind_match = inner.match( KIND_PATTERN );
+	if ( kind_match && kinds.contains( kind_match[ 1 ] ) ) {
+		offset = kind_match[ 0 ].length;
+	}
+
+	return { text: inner, block, block_index, offset };
+}
+
+
+/**
+ * @param parts {AltTextParts} Split alt text.
+ * @param index {number} Offset in the alt text without its attribute block.
+ * @param is_end {boolean} Whether the offset ends a range,
+ * 		so stays before an attribute block at the same offset.
+ * @returns {number} Offset in the original alt text.
+ */
+function sourceIndex( parts: AltTextParts, index: number, is_end = false ): number {
+	const before = is_end ? index <= parts.block_index : index < parts.block_index;
+	return before ? index : index + parts.block.length;
+}
+
+
+/**
+ * Finds the end of a bracketed span, skipping nested pairs and escaped characters.
+ * 
+ * @param {string} text - Text containing the span.
+ * @param {number} start - Offset after the opening bracket.
+ * @param {string} open - Opening bracket.
+ * @param {string} close - Closing bracket.
+ * @returns {number} Offset of the closing bracket, or -1 if the span is not closed.
+ */
+function closingBracket( text: string, start: number, open: string, close: string ): number {
+	let depth = 1;
+	for ( let i = start; i < text.length; i++ ) {
+		const char = text[ i ];
+		if ( char === '\\' ) {
+			i++;
+		}
+		else if ( char === '<' && open === '(' && ! text.slice( start, i ).trim() ) {
+			// a destination in angle brackets may contain unbalanced parentheses
+			const end = text.indexOf( '>', i + 1 );
+			if ( end === -1 ) {
+				return -1;
+			}
+
+			i = end;
+		}
+		else if ( char === open ) {
+			depth++;
+		}
+		else if ( char === close && --depth === 0 ) {
+			return i;
+		}
+	}
+
+	return -1;
+}
+
+
+/**
+ * Finds the embeds in a line of markdown source.
+ * Alt text may contain balanced brackets and URLs balanced parentheses,
+ * or any parentheses if enclosed in angle brackets, as in CommonMark.
+ * 
+ * @param {string} line_text - Line of markdown source.
+ * @returns {Omit<SourceEmbed, 'line' | 'section'>[]} Embeds of the line,
+ * 		with their offsets in the line.
+ */
+function matchEmbeds( line_text: string ): Omit<SourceEmbed, 'line' | 'section'>[] {
+	const embeds: Omit<SourceEmbed, 'line' | 'section'>[] = [];
+	let start = line_text.indexOf( '![' );
+	while ( start !== -1 ) {
+		let embed: Omit<SourceEmbed, 'line' | 'section'> | null = null;
+		const link_end = line_text.indexOf( ']', start + 3 );
+		if ( line_text[ start + 2 ] === '[' && line_text[ link_end + 1 ] === ']' ) {
+			const target = line_text.slice( start + 3, link_end );
+			const sep = target.indexOf( '|' );
+			embed = {
+				src: ( sep === -1 ? target : target.slice( 0, sep ) ).trim(),
+				alt_text: sep === -1 ? '' : target.slice( sep + 1 ),
+				from: start,
+				to: link_end + 2,
+				embed_type: EmbedType.Internal
+			};
+		}
+		else {
+			const alt_end = closingBracket( line_text, start + 2, '[', ']' );
+			const url_end = ( alt_end !== -1 && line_text[ alt_end + 1 ] === '(' )
+				? closingBracket( line_text, alt_end + 2, '(', ')' )
+				: -1;
+
+			if ( url_end !== -1 ) {
+				let src = line_text.slice( alt_end + 2, url_end ).trim();
+				const angled = src.match( /^<([^>]*)>/ );
+				if ( angled ) {
+					src = angled[ 1 ];
+				}
+
+				embed = {
+					src,
+					alt_text: line_text.slice( start + 2, alt_end ),
+					from: start,
+					to: url_end + 1,
+					embed_type: EmbedType.External
+				};
+			}
+		}
+
+		if ( embed ) {
+			embeds.push( embed );
+		}
+
+		start = line_text.indexOf( '![', embed ? embed.to : start + 2 );
+	}
+
+	return embeds;
+}
+
+
+/**
+ * Finds the image embeds in markdown source,
+ * skipping the frontmatter, code blocks, and inline code as the editor does.
+ * Sections are started by ATX headings, also within blockquotes, and Setext headings.
+ * 
+ * @param {string} text - Markdown source of the note.
+ * @param {number} [section_level=1] - Deepest heading level that starts a new section.
+ * @returns {SourceEmbed[]} Embeds in source order.
+ */
+export function parseSourceEmbeds( text: string, section_level = 1 ): SourceEmbed[] {
+	const embeds: SourceEmbed[] = [];
+	const frontmatter_end = text.match( FRONTMATTER_PATTERN )?.[ 0 ].length ?? 0;
+	let sections: number[] = [];
+	let fence: string | null = null;
+	let in_list = false;
+	let in_paragraph = false;
+	let prev_blank = true;
+	let in_indented_code = false;
+	let line_start = 0;
+	text.split( '\n' ).forEach( ( line_text, line ) => {
+		const offset = line_start;
+		line_start += line_text.length + 1;
+		if ( offset < frontmatter_end ) {
+			return;
+		}
+
+		const was_paragraph = in_paragraph;
+		in_paragraph = false;
+		const fence_match = line_text.match( FENCE_PATTERN );
+		if ( fence !== null ) {
+			// only a fence of the same kind and at least the same length closes the block
+			const closing = fence_match?.[ 1 ];
+			if (
+				closing
+				&& closing[ 0 ] === fence[ 0 ]
+				&& closing.length >= fence.length
+				&& ! line_text.slice( fence_match[ 0 ].length ).trim()
+			) {
+				fence = null;
+			}
+
+			return;
+		}
+
+		if ( fence_match ) {
+			fence = fence_match[ 1 ];
+			return;
+		}
+
+		const blank = ! line_text.trim();
+		const was_blank = prev_blank;
+		prev_blank = blank;
+		if ( blank ) {
+			return;
+		}
+
+		// indented lines continue a list item rather than start a code block
+		if ( INDENTED_CODE_PATTERN.test( line_text ) && ! in_list && ( was_blank || in_indented_code ) ) {
+			in_indented_code = true;
+			return;
+		}
+
+		in_indented_code = false;
+		const setext = was_paragraph ? line_text.match( SETEXT_PATTERN ) : null;
+		if ( setext ) {
+			// underlines the previous line
+			const level = ( setext[ 1 ][ 0 ] === '=' ) ? 1 : 2;
+			if ( level <= section_level ) {
+				sections = nextSection( sections, level );
+			}
+
+			return;
+		}
+
+		const list_item = LIST_ITEM_PATTERN.test( line_text );
+		if ( list_item ) {
+			in_list = true;
+		}
+		else if ( ! /^\s/.test( line_text ) && was_blank ) {
+			in_list = false;
+		}
+
+		const heading = line_text.match( HEADING_PATTERN );
+		if ( heading && heading[ 1 ].length <= section_level ) {
+			sections = nextSection( sections, heading[ 1 ].length );
+		}
+
+		in_paragraph = ! heading && ! list_item && ! SETEXT_PATTERN.test( line_text ) && ! /^\s*>/.test( line_text );
+
+		const code_spans = Array.from( line_text.matchAll( CODE_SPAN_PATTERN ) ).map(
+			( match ) => [ match.index, match.index + match[ 0 ].length ]
+		);
+
+		for ( const embed of matchEmbeds( line_text ) ) {
+			if ( code_spans.some( ( [ start, end ] ) => start <= embed.from && embed.from < end ) ) {
+				continue;
+			}
+
+			if ( embed.embed_type === EmbedType.Internal && ! isImageSrc( embed.src ) ) {
+				// embedded note, heading, or other file
+				continue;
+			}
+
+			embeds.push( {
+				...embed,
+				line,
+				from: offset + embed.from,
+				to: offset + embed.to,
+				section: sectionNumber( sections )
+			} );
+		}
+	} );
+
+	return embeds;
+}
+
+
+/**
+ * Gets the captions defined in the frontmatter of a note's source.
+ * Used where the metadata cache may not reflect the latest edits.
+ * 
+ * @param {string} text - Markdown source of the note.
+ * @returns {Record<string, unknown> | undefined} Captions keyed by file name or figure id,
+ * 		or undefined if none are defined.
+ */
+export function parseFrontmatterCaptions( text: string ): Record<string, unknown> | undefined {
+	const match = text.match( FRONTMATTER_PATTERN );
+	if ( ! match ) {
+		return undefined;
+	}
+
+	try {
+		return frontmatterCaptions( parseYaml( match[ 1 ] ) );
+	}
+	catch ( err ) {
+		// invalid frontmatter, e.g. while it is being typed
+		return undefined;
+	}
+}
+
+
+/**
+ * @param {unknown} frontmatter - Parsed frontmatter of a note.
+ * @returns {Record<string, unknown> | undefined} The `captions` map of the frontmatter,
+ * 		or undefined if it does not exist or is not a map.
+ */
+export function frontmatterCaptions( frontmatter: unknown ): Record<string, unknown> | undefined {
+	const captions = ( frontmatter as { captions?: unknown } | null )?.captions;
+	if ( ! captions || typeof captions !== 'object' || Array.isArray( captions ) ) {
+		return undefined;
+	}
+
+	return captions as Record<string, unknown>;
+}
+
+
+/**
+ * Finds the frontmatter caption of an image.
+ * Captions keyed by figure id take precedence over those keyed by source or file name.
+ * 
+ * @param {Record<string, unknown> | undefined} captions - Frontmatter captions of the note.
+ * @param {string} src - Source of the image.
+ * @param {string} [id] - Figure id of the image, if it has one.
+ * @returns {string | undefined} Caption of the image, if defined.
+ */
+export function frontmatterCaption(
+	captions: Record<string, unknown> | undefined,
+	src: string,
+	id?: string
+): string | undefined {
+	if ( ! captions ) {
+		return undefined;
+	}
+
+	for ( const key of [ id, src, srcFilename( src ) ] ) {
+		const caption = key ? captions[ key ] : undefined;
+		if ( typeof caption === 'string' && caption.trim() ) {
+			return caption;
+		}
+	}
+
+	return undefined;
+}
+
+
+/**
+ * @param {string} src - Source of an internal embed.
+ * @returns {boolean} Whether the embed is of an image, judged by its file extension.
+ */
+export function isImageSrc( src: string ): boolean {
+	const match = src.split( '#' )[ 0 ].trim().match( /\.([^./]+)$/ );
+	return !! match && IMAGE_EXTENSIONS.contains( match[ 1 ].toLowerCase() );
+}
+
+
+/**
+ * @param {string} src - Path or URL of an image.
+ * @returns {string} File name of the image.
+ */
+export function srcFilename( src: string ): string {
+	const path = src.split( /[?#]/ )[ 0 ];
+	const name = path.split( '/' ).pop() ?? path;
+	try {
+		return decodeURIComponent( name );
+	}
+	catch ( err ) {
+		return name;
+	}
+}
+
+
+/**
+ * Counts a heading towards the section numbers.
+ * The heading starts a new section at its level,
+ * ending any deeper sections.
+ * 
+ * @param {number[]} sections - Heading counts of each level of the current section.
+ * @param {number} level - Level of the heading.
+ * @returns {number[]} Heading counts of each level of the section the heading starts.
+ */
+export function nextSection( sections: number[], level: number ): number[] {
+	const next = sections.slice( 0, level );
+	while ( next.length < level ) {
+		next.push( 0 );
+	}
+
+	next[ level - 1 ] += 1;
+	return next;
+}
+
+
+/**
+ * @param {number[]} sections - Heading counts of each level of a section.
+ * @returns {string} Section number, e.g. 2.1,
+ * 		or an empty string before the first heading.
+ * 		Levels above the first heading are omitted.
+ */
+export function sectionNumber( sections: number[] ): string {
+	const first = sections.findIndex( count => count > 0 );
+	return ( first === -1 ) ? '' : sections.slice( first ).join( '.' );
+}
+
+
+/**
+ * Assigns figure numbers to images.
+ * Each kind of figure is counted separately.
+ * Subfigures share the number of their figure.
+ * When numbering by section, figures before the first heading
+ * are numbered without a section number.
+ * 
+ * @param {FigureInfo[]} figures - Section and kind of each image, in document order.
+ * @param {NumberingMode} mode - Numbering mode.
+ * @param {NumberStyle} [style=NumberStyle.Arabic] - How the figure count is written.
+ * 		Section numbers are always arabic.
+ * @param {number} [start=1] - Number of the first figure of each counter.
+ * @returns {string[]} Figure number of each image.
+ */
+export function figureNumbers(
+	figures: FigureInfo[],
+	mode: NumberingMode,
+	style: NumberStyle = NumberStyle.Arabic,
+	start = 1
+): string[] {
+	const counters = new Map<string, { section: string, count: number }>();
+	let previous: string | undefined;
+	return figures.map( ( { section, kind, grouped } ) => {
+		if ( grouped && previous !== undefined ) {
+			return previous;
+		}
+
+		const key = kind ?? '';
+		let counter = counters.get( key );
+		if ( ! counter || ( mode === NumberingMode.Section && counter.section !== section ) ) {
+			counter = { section, count: start - 1 };
+			counters.set( key, counter );
+		}
+
+		counter.count += 1;
+		const count = formatNumber( counter.count, style );
+		previous = ( mode === NumberingMode.Section && section )
+			? `${section}.${count}`
+			: count;
+
+		return previous;
+	} );
+}
+
+
+/**
+ * Decides whether an image is a subfigure of the same figure as the previous image.
+ * Consecutive images with the same `group` attribute form one figure,
+ * as do consecutive images of one paragraph if enabled.
+ * 
+ * @param {string | undefined} previous_group - Group attribute of the previous image.
+ * @param {string | undefined} group - Group attribute of the image.
+ * @param {string} gap - Source text between the previous image and the image.
+ * @param {boolean} by_paragraph - Whether images of one paragraph are grouped.
+ * @returns {boolean} Whether the image continues the figure of the previous image.
+ */
+export function continuesFigure(
+	previous_group: string | undefined,
+	group: string | undefined,
+	gap: string,
+	by_paragraph: boolean
+): boolean {
+	if ( group && previous_group ) {
+		return group === previous_group;
+	}
+
+	return by_paragraph && PARAGRAPH_GAP_PATTERN.test( gap );
+}
+
+
+/**
+ * @param {FigureInfo[]} figures - Figures of a note, in document order.
+ * @param {number} index - Index of an image.
+ * @returns {number[]} Indices of the images of the figure containing the image.
+ */
+export function figureGroup( figures: FigureInfo[], index: number ): number[] {
+	let first = index;
+	while ( first > 0 && figures[ first ].grouped ) {
+		first -= 1;
+	}
+
+	let last = index;
+	while ( last + 1 < figures.length && figures[ last + 1 ].grouped ) {
+		last += 1;
+	}
+
+	return Array.from( { length: last - first + 1 }, ( _, i ) => first + i );
+}
+
+
+/**
+ * Assigns letters to subfigures, e.g. a, b, c.
+ * 
+ * @param {FigureInfo[]} figures - Figures of a note, in document order.
+ * @returns {string[]} Letter of each image, empty for images that are not subfigures.
+ */
+export function subfigureLetters( figures: FigureInfo[] ): string[] {
+	const letters: string[] = [];
+	let position = 0;
+	figures.forEach( ( figure, index ) => {
+		position = figure.grouped ? position + 1 : 1;
+		const is_subfigure = figure.grouped || figures[ index + 1 ]?.grouped;
+		letters.push( is_subfigure ? formatNumber( position, NumberStyle.LowerAlpha ) : '' );
+	} );
+
+	return letters;
+}
+
+
+/**
+ * @param {(Record<string, string> | undefined)[]} attributes - Attributes of the images of a figure.
+ * @returns {string | undefined} Caption shared by the subfigures,
+ * 		from the first `group-caption` attribute.
+ */
+export function groupCaption( attributes: ( Record<string, string> | undefined )[] ): string | undefined {
+	return attributes.map( attrs => attrs?.[ 'group-caption' ] ).find( caption => caption );
+}
+
+
+/**
+ * @param {number} value - Number to format.
+ * @param {NumberStyle} style - Numbering style.
+ * @returns {string} Number written in the style.
+ * 		Numbers the style can not express, e.g. roman zero, are written in arabic.
+ */
+export function formatNumber( value: number, style: NumberStyle ): string {
+	if ( value < 1 || style === NumberStyle.Arabic ) {
+		return value.toString();
+	}
+
+	if ( style === NumberStyle.UpperRoman || style === NumberStyle.LowerRoman ) {
+		if ( value >= 4000 ) {
+			return value.toString();
+		}
+
+		const numerals: [ number, string ][] = [
+			[ 1000, 'M' ], [ 900, 'CM' ], [ 500, 'D' ], [ 400, 'CD' ],
+			[ 100, 'C' ], [ 90, 'XC' ], [ 50, 'L' ], [ 40, 'XL' ],
+			[ 10, 'X' ], [ 9, 'IX' ], [ 5, 'V' ], [ 4, 'IV' ], [ 1, 'I' ]
+		];
+
+		let roman = '';
+		for ( const [ amount, numeral ] of numerals ) {
+			while ( value >= amount ) {
+				roman += numeral;
+				value -= amount;
+			}
+		}
+
+		return style === NumberStyle.LowerRoman ? roman.toLowerCase() : roman;
+	}
+
+	// alphabetic: a-z, then aa, ab, ...
+	let alpha = '';
+	while ( value > 0 ) {
+		value -= 1;
+		alpha = String.fromCharCode( 65 + ( value % 26 ) ) + alpha;
+		value = Math.floor( value / 26 );
+	}
+
+	return style === NumberStyle.LowerAlpha ? alpha.toLowerCase() : alpha;
+}
+
+
+/**
+ * Collects the figure labels of a note.
+ * 
+ * @param {(ParsedCaption | null)[]} captions - Parsed caption of each image.
+ * @param {string[]} fig_nums - Figure number of each image.
+ * @returns {Map<string, FigureTarget>} Map from label to figure.
+ */
+export function parseFigureLabels(
+	captions: ( ParsedCaption | null )[],
+	fig_nums: string[]
+): Map<string, FigureTarget> {
+	const labels = new Map<string, FigureTarget>();
+	captions.forEach( ( parsed, index ) => {
+		if ( parsed && parsed.label && ! labels.has( parsed.label ) ) {
+			labels.set( parsed.label, { fig_num: fig_nums[ index ], kind: parsed.kind } );
+		}
+	} );
+
+	return labels;
+}
+
+
+/**
+ * Formats the text of a figure reference.
+ * 
+ * @param {string} template - Reference text,
+ * 		with unescaped hashtags replaced by the figure number.
+ * @param {string} fig_num - Figure number.
+ * @returns {string} Reference text.
+ */
+export function formatReference( template: string, fig_num: string ): string {
+	return template
+		.replace( /(^|[^\\])#/g, `$1${fig_num}` )
+		.replace( /\\#/g, '#' );
+}
+
+
+/**
+ * Parses the contents of an attribute block.
+ * 
+ * @param {string} text - Contents of the attribute block, without braces.
+ * @returns {ParsedAttributes} Id, classes, and key-value pairs of the block.
+ */
+export function parseAttributes( text: string ): ParsedAttributes {
+	const parsed: ParsedAttributes = { classes: [], attributes: {} };
+	for ( const match of text.matchAll( new RegExp( ATTRIBUTE_PATTERN, 'g' ) ) ) {
+		const token = match[ 0 ];
+		if ( token.startsWith( '#' ) ) {
+			parsed.id = token.slice( 1 );
+		}
+		else if ( token.startsWith( '.' ) ) {
+			parsed.classes.push( token.slice( 1 ) );
+		}
+		else {
+			const sep = token.indexOf( '=' );
+			let value = token.slice( sep + 1 );
+			if ( /^(["']).*\1$/.test( value ) ) {
+				// strip quotes
+				value = value.slice( 1, -1 );
+			}
+
+			parsed.attributes[ token.slice( 0, sep ) ] = value;
+		}
+	}
+
+	return parsed;
+}
+
+
+/**
+ * @param {Record<string, string>} attributes - Key-value attributes.
+ * @returns {ImageSize | undefined} Size given by the width, height,
+ * 		max-width, and max-height attributes, or undefined if none are given.
+ */
+function attributeSize( attributes: Record<string, string> ): ImageSize | undefined {
+	const keys: [ string, keyof ImageSize ][] = [
+		[ 'width', 'width' ],
+		[ 'height', 'height' ],
+		[ 'max-width', 'max_width' ],
+		[ 'max-height', 'max_height' ]
+	];
+
+	let size: ImageSize;
+	for ( const [ key, dim ] of keys ) {
+		const match = attributes[ key ]?.match( WIDTH_PATTERN );
+		if ( match ) {
+			size = { ...size, [ dim ]: toDimension( match[ 1 ], match[ 2 ] ) };
+		}
+	}
+
+	return size;
+}
+
+
+/**
+ * @param {string} [value] - Value of the caption-position attribute.
+ * @returns {CaptionPosition | undefined} Caption position,
+ * 		or undefined if the value is not a valid position.
+ */
+function attributePosition( value?: string ): CaptionPosition | undefined {
+	if ( ! value ) {
+		return undefined;
+	}
+
+	value = value.toLowerCase();
+	const aliases = new Map<string, CaptionPosition>( [
+		[ 'top', CaptionPosition.Above ],
+		[ 'bottom', CaptionPosition.Below ]
+	] );
+
+	if ( aliases.has( value ) ) {
+		return aliases.get( value );
+	}
+
+	return Object.values( CaptionPosition ).find( pos => pos === value );
+}
+
+
+/**
+ * @param {string} [value] - Value of the align attribute, e.g. left or float-right.
+ * @returns {ImageAlign | undefined} Image alignment,
+ * 		or undefined if the value is not a valid alignment.
+ */
+function attributeAlign( value?: string ): ImageAlign | undefined {
+	if ( ! value ) {
+		return undefined;
+	}
+
+	value = value.toLowerCase();
+	return Object.values( ImageAlign ).find( align => align === value );
+}
+
+
+/**
+ * Searches for size parameters returning them if found.
+ * Recognized tokens are
+ * + <width>x<height>: Either may be `auto` to scale with the other.
+ * + <width>: Width only, the height scales automatically.
+ * 		Only recognized if allowed, as bare numbers are common in alt text.
+ * + max<width>[x<height>]: Maximum dimensions.
+ * Dimensions are numbers in pixels, or may have a CSS unit, e.g. 50% or 20em.
+ * 
+ * @param {string} text - Text to parse.
+ * @param {boolean} [allow_width=false] - Whether width-only tokens are recognized.
+ * @returns {ImageSize|undefined} - Object representing the image size,
+ * 		or undefined if not found.
+ */
+export function parseSize( text: string, allow_width = false ): ImageSize {
+	if ( ! text ) {
+		return undefined;
+	}
+
+	let size: ImageSize;
+	let max: ImageSize;
+	for ( const token of text.trim().split( /\s+/ ) ) {
+		let match;
+		if ( ! size && ( match = token.match( SIZE_PATTERN ) ) ) {
+			size = {
+				width: toDimension( match[ 1 ], match[ 2 ] ),
+				height: toDimension( match[ 3 ], match[ 4 ] )
+			};
+		}
+		else if ( ! size && allow_width && ( match = token.match( WIDTH_PATTERN ) ) ) {
+			size = { width: toDimension( match[ 1 ], match[ 2 ] ) };
+		}
+		else if ( ! max && ( match = token.match( MAX_SIZE_PATTERN ) ) ) {
+			max = {
+				max_width: toDimension( match[ 1 ], match[ 2 ] ),
+				max_height: toDimension( match[ 3 ], match[ 4 ] )
+			};
+		}
+	}
+
+	if ( ! ( size || max ) ) {
+		return undefined;
+	}
+
+	return { ...size, ...max };
+}
+
+
+/**
+ * @param {string | undefined} value - Numeric value, undefined for auto.
+ * @param {string | undefined} unit - CSS unit, undefined for pixels.
+ * @returns {Dimension | undefined} Dimension, or undefined for auto.
+ */
+function toDimension( value?: string, unit?: string ): Dimension | undefined {
+	if ( value === undefined ) {
+		return undefined;
+	}
+
+	return { value: parseFloat( value ), unit: ( unit ?? '' ).toLowerCase() };
+}
+
+
+/**
+ * @param {Dimension} [dim] - Dimension to format.
+ * @returns {string} CSS length of the dimension, or `auto` if undefined.
+ */
+export function formatDimension( dim?: Dimension ): string {
+	if ( ! dim ) {
+		return 'auto';
+	}
+
+	return `${dim.value}${dim.unit || 'px'}`;
+}
+
+
+/**
+ * @param {ImageSize} size - Size to format.
+ * @returns {string} Size in the syntax used by `parseSize`.
+ */
+export function formatSize( size: ImageSize ): string {
+	const format = ( dim?: Dimension ) => ( dim ? `${dim.value}${dim.unit}` : 'auto' );
+	const parts = [];
+	if ( size.width || size.height ) {
+		parts.push( `${format( size.width )}x${format( size.height )}` );
+	}
+
+	if ( size.max_width || size.max_height ) {
+		parts.push( `max${format( size.max_width )}x${format( size.max_height )}` );
+	}
+
+	return parts.join( ' ' );
+}
+
+
+/**
+ * Searches for a caption position keyword of the form
+ * caption-<above|below|left|right> returning the position if found.
+ * 
+ * @param {string} text - Text to parse.
+ * @returns {CaptionPosition|undefined} - Caption position,
+ * 		or undefined if not found.
+ */
+export function parsePosition( text: string ): CaptionPosition {
+	if ( ! text ) {
+		return undefined;
+	}
+
+	const match = text.match( POSITION_PATTERN );
+	if ( ! match ) {
+		return undefined;
+	}
+
+	return match[ 1 ].toLowerCase() as CaptionPosition;
+}
+
+
+/**
+ * Searches for an alignment keyword,
+ * one of align-left, align-center, align-right, float-left, or float-right,
+ * returning the alignment if found.
+ * Plain left, center, and right are only recognized if allowed, as they are common words.
+ * 
+ * @param {string} text - Text to parse.
+ * @param {boolean} [allow_plain=false] - Whether plain left, center, and right are recognized.
+ * @returns {ImageAlign|undefined} - Image alignment,
+ * 		or undefined if not found.
+ */
+export function parseAlign( text: string, allow_plain = false ): ImageAlign {
+	if ( ! text ) {
+		return undefined;
+	}
+
+	const match = text.match( ALIGN_PATTERN );
+	if ( match ) {
+		return ( match[ 1 ] ?? match[ 2 ] ).toLowerCase() as ImageAlign;
+	}
+
+	const plain = allow_plain ? text.match( PLAIN_ALIGN_PATTERN ) : null;
+	return plain ? plain[ 1 ].toLowerCase() as ImageAlign : undefined;
+}
+
+
+/**
+ * Applies a caption template.
+ * Templates using {caption} wrap existing captions, and are not applied to uncaptioned images.
+ * Other templates generate captions for uncaptioned images, leaving existing captions as they are.
+ * 
+ * @param {string} template - Caption template, empty for none.
+ * @param {string | undefined} caption - Caption of the image, if it has one.
+ * @param {TemplateVariables} variables - Values of the template variables.
+ * @returns {string | undefined} Caption to display, or undefined if the image has none.
+ */
+export function applyCaptionTemplate(
+	template: string,
+	caption: string | undefined,
+	variables: TemplateVariables
+): string | undefined {
+	const wraps = template.includes( '{caption}' );
+	if ( ! template || ( caption ? ! wraps : wraps ) ) {
+		return caption || undefined;
+	}
+
+	const values: Record<string, string> = { ...variables, caption: caption ?? '' };
+	return template.replace( TEMPLATE_VARIABLE_PATTERN, ( _match, name: string ) => values[ name ] );
+}
+
+
+/**
+ * @param {string} template - Caption template, empty for none.
+ * @returns {boolean} Whether the template generates captions for uncaptioned images.
+ */
+export function templateGenerates( template: string ): boolean {
+	return !! template && ! template.includes( '{caption}' );
+}
+
+
+/**
+ * Adds a caption to an image.
+ * 
+ * @param {HTMLElement} target - Parent element for the caption.
+ * @param {string} caption_text - Text to add for the caption.
+ * @param {CaptionFormat} [format=CaptionFormat.Text] - How the caption text is inserted.
+ * @param {string} [source_path=''] - Path of the note containing the image,
+ * 		used to resolve links in Markdown captions.
+ * @param {CaptionPosition} [position=CaptionPosition.Below] - Where the caption is placed.
+ * @param {string} [template=''] - Caption template, see applyCaptionTemplate.
+ * 		The caption text may be empty if the template generates captions.
+ * @param {TemplateVariables} [variables] - Values of the template variables,
+ * 		the template is only applied if given.
+ * @returns {MarkdownRenderChild} - Caption element that was added to the target as the caption.
+ */
+export function addCaption(
+	target: HTMLElement,
+	caption_text: string,
+	format: CaptionFormat = CaptionFormat.Text,
+	source_path = '',
+	position: CaptionPosition = CaptionPosition.Below,
+	template = '',
+	variables?: TemplateVariables
+): MarkdownRenderChild {
+	if ( variables ) {
+		caption_text = applyCaptionTemplate( template, caption_text, variables ) ?? caption_text;
+	}
+
+	const child = createCaption( caption_text, format, source_path );
+	const caption = child.containerEl;
+
+	// side captions lay out with flex, so must be set before checking the display
+	Object.values( CaptionPosition ).forEach(
+		( pos ) => target.removeClass( `image-caption-position-${pos}` )
+	);
+	target.addClass( `image-caption-position-${position}` );
+
+	if ( position === CaptionPosition.Above || position === CaptionPosition.Left ) {
+		target.prepend( caption );
+	}
+	else {
+		target.appendChild( caption );
+	}
+
+	const style = getComputedStyle(target);
+	if ( style.getPropertyValue('display') == 'inline' ) {
+		target.style.display = 'inline-block';
+	}
+
+	target.addClass('image-caption-captioned');
+
+	return child;
+}
+
+
+/**
+ * Creates a caption element, not yet placed in the document.
+ * 
+ * @param {string} caption_text - Text of the caption.
+ * @param {CaptionFormat} [format=CaptionFormat.Text] - How the caption text is inserted.
+ * @param {string} [source_path=''] - Path of the note containing the image,
+ * 		used to resolve links in Markdown captions.
+ * @returns {MarkdownRenderChild} - Component of the caption element.
+ */
+export function createCaption(
+	caption_text: string,
+	format: CaptionFormat = CaptionFormat.Text,
+	source_path = ''
+): MarkdownRenderChild {
+	const caption = document.createElement( ImageCaptionPlugin.caption_tag );
+	caption.addClass( ImageCaptionPlugin.caption_class );
+
+	// caption text is kept apart from the label so each can be replaced on its own
+	const text = caption.createSpan( { cls: ImageCaptionPlugin.caption_text_class } );
+	const child = new MarkdownRenderChild( caption );
+	setCaptionContent( text, caption_text, format, source_path, child );
+
+	return child;
+}
+
+
+/**
+ * Wraps the subfigures of a figure in one container,
+ * so the caption of the figure can be placed below all of them.
+ * Everything between the first and last element is wrapped with them.
+ * Only used in Reading view, as the editor redraws the lines of Live Preview itself.
+ * 
+ * @param {Element} first - First element of the figure.
+ * @param {Element} last - Last element of the figure.
+ * @returns {HTMLElement | null} Container of the figure,
+ * 		or null if the elements do not share a parent, e.g. as they are in different paragraphs.
+ */
+export function wrapFigureGroup( first: Element, last: Element ): HTMLElement | null {
+	const parent = first.parentElement;
+	if ( ! parent || parent !== last.parentElement ) {
+		return null;
+	}
+
+	const group_class = ImageCaptionPlugin.group_container_class;
+	if ( parent.matches( `.${group_class}` ) ) {
+		// already wrapped
+		return parent;
+	}
+
+	const container = document.createElement( 'span' );
+	container.addClass( group_class );
+	parent.insertBefore( container, first );
+
+	let node: Node | null = first;
+	while ( node ) {
+		const next: Node | null = ( node === last ) ? null : node.nextSibling;
+		container.appendChild( node );
+		node = next;
+	}
+
+	return container;
+}
+
+
+/**
+ * Sets the label of a caption, e.g. "Figure 3:", placed before the caption text.
+ * 
+ * @param {HTMLElement} caption - Caption element.
+ * @param {string} label - Label text, or an empty string to remove the label.
+ */
+export function setCaptionLabel( caption: HTMLElement, label: string ) {
+	let label_el = caption.querySelector( `:scope > .${ImageCaptionPlugin.caption_label_class}` );
+	if ( ! label ) {
+		label_el?.remove();
+		return;
+	}
+
+	if ( ! label_el ) {
+		label_el = createSpan( { cls: ImageCaptionPlugin.caption_label_class } );
+		caption.prepend( label_el );
+	}
+
+	label_el.textContent = `${label} `;  // trailing space separates the label from the caption text
+}
+
+
+/**
+ * Inserts the caption text into a caption element.
+ * 
+ * @param {HTMLElement} caption - Caption element.
+ * @param {string} caption_text - Text of the caption.
+ * @param {CaptionFormat} format - How the caption text is inserted.
+ * @param {string} source_path - Path of the note containing the image.
+ * @param {Component} component - Component managing the lifetime of rendered Markdown.
+ */
+export function setCaptionContent(
+	caption: HTMLElement,
+	caption_text: string,
+	format: CaptionFormat,
+	source_path: string,
+	component: Component
+) {
+	if ( format === CaptionFormat.Markdown ) {
+		MarkdownRenderer.renderMarkdown( caption_text, caption, source_path, component ).then(
+			() => {
+				// unwrap the paragraph so the caption stays inline with its label
+				const paragraph = caption.firstElementChild;
+				if ( caption.childElementCount === 1 && paragraph.tagName === 'P' ) {
+					paragraph.replaceWith( ...Array.from( paragraph.childNodes ) );
+				}
+			}
+		).catch( ( err ) => {
+			console.error( `could not render caption in ${source_path}`, err );
+			caption.innerText = caption_text;
+		} );
+	}
+	else if ( format === CaptionFormat.Html ) {
+		caption.empty();
+		caption.appendChild( sanitizeHtml( caption_text ) );
+	}
+	else{
+		caption.innerText = caption_text;
+	}
+}
+
+
+/**
+ * Finds the internal links of a caption, as Obsidian would in note text.
+ * 
+ * @param {string} caption_text - Markdown text of the caption.
+ * @returns {string[]} Link paths, without their heading or block.
+ */
+export function captionLinkpaths( caption_text: string ): string[] {
+	const paths: string[] = [];
+	for ( const match of caption_text.matchAll( LINK_PATTERN ) ) {
+		let target = match[ 1 ];
+		if ( target === undefined ) {
+			target = match[ 2 ].replace( /^<|>$/g, '' );
+			if ( URL_SCHEME_PATTERN.test( target ) ) {
+				// external link
+				continue;
+			}
+
+			try {
+				target = decodeURI( target );
+			}
+			catch ( err ) {
+				// malformed escapes are kept as written
+			}
+		}
+
+		const path = getLinkpath( target.trim() );
+		if ( path ) {
+			paths.push( path );
+		}
+	}
+
+	return paths;
+}
+
+
+/**
+ * Opens internal links in a rendered caption when clicked.
+ * Used where Obsidian does not handle the links itself, such as Live Preview.
+ * 
+ * @param {HTMLElement} caption - Caption element.
+ * @param {App} app - Obsidian app.
+ * @param {string} source_path - Path of the note containing the image.
+ */
+export function registerCaptionLinks(
+	caption: HTMLElement,
+	app: App,
+	source_path: string
+) {
+	caption.addEventListener( 'click', ( evt: MouseEvent ) => {
+		const link = ( evt.target as HTMLElement ).closest( 'a.internal-link' );
+		if ( ! link ) {
+			return;
+		}
+
+		evt.preventDefault();
+		evt.stopPropagation();
+		const href = link.getAttribute( 'data-href' ) ?? link.getAttribute( 'href' );
+		app.workspace.openLinkText( href, source_path, Keymap.isModEvent( evt ) );
+	} );
 }
 
 
 /**
  * Sets the width and height for an image.
+ * Pixel dimensions are set as attributes, as Obsidian does for native sizes.
+ * Other units are set as styles, with percentages applied to the container
+ * so they are relative to the note rather than the image itself.
  * 
- * @param {HTMLElement} target - Parent element of the image.
+ * @param {HTMLElement} target - Parent element of the image, or the image itself.
  * @param {ImageSize} size - Width and height values.
  */
 export function setSize(
 	target: HTMLElement,
 	size: ImageSize
 ) {
-    const img = target.querySelector( 'img' );
-	const { width, height } = size;
-    const w = width.toString();
-    const h = height.toString();
-
-	target.setAttribute( 'width', w );
-	target.setAttribute( 'height', h );
-	img.setAttribute( 'width', w );
-	img.setAttribute( 'height', h );
+	// the image itself may be the target when it has no container
+    const img = target.matches( 'img' ) ? target : target.querySelector( 'img' );
+	if ( ! img ) {
+		return;
+	}
+
+	const is_pixels = ( dim: Dimension ) => ( ! dim.unit || dim.unit === 'px' );
+	const attrs: [ 'width' | 'height', Dimension ][] = [
+		[ 'width', size.width ],
+		[ 'height', size.height ]
+	];
+
+	for ( const [ attr, dim ] of attrs ) {
+		target.removeAttribute( attr );
+		img.removeAttribute( attr );
+		target.style[ attr ] = '';
+		img.style[ attr ] = '';
+		if ( ! dim ) {
+			// auto
+			continue;
+		}
+
+		if ( is_pixels( dim ) ) {
+			const value = dim.value.toString();
+			target.setAttribute( attr, value );
+			img.setAttribute( attr, value );
+		}
+		else if ( dim.unit === '%' && attr === 'width' && img !== target ) {
+			target.style.width = formatDimension( dim );
+			img.style.width = '100%';
+		}
+		else {
+			img.style[ attr ] = formatDimension( dim );
+		}
+	}
+
+	target.style.maxWidth = '';
+	img.style.maxWidth = size.max_width ? formatDimension( size.max_width ) : '';
+	img.style.maxHeight = size.max_height ? formatDimension( size.max_height ) : '';
+	if ( size.max_width && size.max_width.unit === '%' && img !== target ) {
+		target.style.maxWidth = formatDimension( size.max_width );
+		img.style.maxWidth = '100%';
+	}
+}
+
+
+/**
+ * Sets the id and classes of an image container from its attribute block,
+ * removing any previously set classes.
+ * 
+ * @param {HTMLElement} target - Parent element of the image.
+ * @param {string} [id] - Id of the figure.
+ * @param {string[]} [classes=[]] - Classes of the figure.
+ */
+export function setFigureAttributes(
+	target: HTMLElement,
+	id?: string,
+	classes: string[] = []
+) {
+	const prev_classes = target.getAttribute( 'data-image-caption-classes' );
+	if ( prev_classes ) {
+		target.removeClasses( prev_classes.split( ' ' ) );
+	}
+
+	if ( classes.length ) {
+		target.addClasses( classes );
+		target.setAttribute( 'data-image-caption-classes', classes.join( ' ' ) );
+	}
+	else {
+		target.removeAttribute( 'data-image-caption-classes' );
+	}
+
+	if ( id ) {
+		target.id = id;
+		target.setAttribute( 'data-image-caption-id', id );
+	}
+	else if ( target.hasAttribute( 'data-image-caption-id' ) ) {
+		// only remove ids set by this plugin
+		target.removeAttribute( 'id' );
+		target.removeAttribute( 'data-image-caption-id' );
+	}
+}
+
+
+/**
+ * Sets the alignment class of an image container,
+ * removing any previous alignment.
+ * 
+ * @param {HTMLElement} target - Parent element of the image.
+ * @param {ImageAlign} [align] - Alignment of the image, or undefined for none.
+ */
+export function setAlignment(
+	target: HTMLElement,
+	align?: ImageAlign
+) {
+	Object.values( ImageAlign ).forEach(
+		( al ) => target.removeClass( `image-caption-align-${al}` )
+	);
+
+	if ( ! align ) {
+		return;
+	}
+
+	// inline display set for captions would override the alignment layout
+	target.style.display = '';
+	target.addClass( `image-caption-align-${align}` );
 }
 
 
@@ -0,0 +1,115 @@
+import {
+	Extension,
+	Range
+} from '@codemirror/state';
+
+import {
+	Decoration,
+	DecorationSet,
+	EditorView,
+	PluginValue,
+	ViewPlugin,
+	ViewUpdate,
+	hoverTooltip
+} from '@codemirror/view';
+
+import ImageCaptionPlugin from './main';
+import {
+	CaptionDiagnostic,
+	captionDiagnostics
+} from './common';
+import { StateParser } from './state_parser';
+
+
+/**
+ * Creates the editor extension underlining caption syntax problems,
+ * with a description of the problem shown on hover.
+ *
+ * @param {ImageCaptionPlugin} plugin
+ * @returns {Extension} Diagnostics extension.
+ */
+export function captionDiagnosticsExtension(plugin: ImageCaptionPlugin): Extension {
+	class CaptionDiagnosticsPlugin implements PluginValue {
+		parser: StateParser;
+		diagnostics: CaptionDiagnostic[];
+		decorations: DecorationSet;
+
+		constructor(view: EditorView) {
+			this.parser = new StateParser(plugin);
+			this.update_diagnostics(view);
+		}
+
+		update(update: ViewUpdate) {
+			if (update.docChanged) {
+				this.update_diagnostics(update.view);
+			}
+		}
+
+		/**
+		 * Finds the caption problems of the document.
+		 *
+		 * @param {EditorView} view - Editor view to check.
+		 */
+		update_diagnostics(view: EditorView) {
+			const { state } = view;
+			this.diagnostics = [];
+			for (const image of this.parser.parse(state)) {
+				const range = this.parser.alt_text_range(image);
+				if (!range) {
+					continue;
+				}
+
+				const alt_text = state.sliceDoc(range.from, range.to);
+				const found = captionDiagnostics(alt_text, this.parser.delimeter(state), plugin.kindNames());
+				for (const diag of found) {
+					this.diagnostics.push({
+						from: range.from + diag.from,
+						to: range.from + diag.to,
+						message: diag.message
+					});
+				}
+			}
+
+			const marks: Range<Decoration>[] = this.diagnostics.map(
+				(diag) => Decoration.mark({ class: 'image-caption-diagnostic' }).range(diag.from, diag.to)
+			);
+
+			this.decorations = Decoration.set(marks, true);
+		}
+	}
+
+	const diagnostics_plugin = ViewPlugin.fromClass(
+		CaptionDiagnosticsPlugin,
+		{
+			decorations: v => v.decorations
+		}
+	);
+
+	const tooltip = hoverTooltip((view: EditorView, pos: number) => {
+		const diagnostics = view.plugin(diagnostics_plugin)?.diagnostics ?? [];
+		const found = diagnostics.filter((diag) => diag.from <= pos && pos <= diag.to);
+		if (!found.length) {
+			return null;
+		}
+
+		return {
+			pos: Math.min(...found.map((diag) => diag.from)),
+			end: Math.max(...found.map((diag) => diag.to)),
+			above: true,
+			create: () => {
+				const dom = document.createElement('div');
+				dom.addClass('image-caption-diagnostic-tooltip');
+				for (const diag of found) {
+					dom.createDiv({ text: diag.message });
+				}
+
+				return { dom };
+			}
+		};
+	});
+
+	return [
+		diagnostics_plugin,
+		tooltip
+	];
+}
@@ -0,0 +1,146 @@
+import {
+	TAbstractFile,
+	TFile
+} from 'obsidian';
+
+import ImageCaptionPlugin from './main';
+import { FigureEntry } from './common';
+import { noteFigures } from './figure_list';
+
+
+// *************
+// *** types ***
+// *************
+
+/**
+ * A captioned figure and the note containing it.
+ * + file: Note containing the figure.
+ * + figure: The figure.
+ */
+export interface IndexedFigure {
+	file: TFile;
+	figure: FigureEntry;
+}
+
+
+// ***************
+// *** classes ***
+// ***************
+
+/**
+ * Index of the captioned figures of every note in the vault.
+ * The index is built on first use, then kept up to date as notes change.
+ */
+export class FigureIndex {
+	plugin: ImageCaptionPlugin;
+	notes: Map<string, IndexedFigure[]>;
+	built: boolean;
+
+	/**
+	 * @param {ImageCaptionPlugin} plugin
+	 */
+	constructor( plugin: ImageCaptionPlugin ) {
+		this.plugin = plugin;
+		this.notes = new Map();
+		this.built = false;
+	}
+
+	/**
+	 * Registers vault events to keep the index up to date.
+	 */
+	register() {
+		const { vault } = this.plugin.app;
+		this.plugin.registerEvent(
+			vault.on( 'modify', ( file: TAbstractFile ) => {
+				if ( this.built && isNote( file ) ) {
+					this.indexNote( file as TFile );
+				}
+			} )
+		);
+
+		this.plugin.registerEvent(
+			vault.on( 'create', ( file: TAbstractFile ) => {
+				if ( this.built && isNote( file ) ) {
+					this.indexNote( file as TFile );
+				}
+			} )
+		);
+
+		this.plugin.registerEvent(
+			vault.on( 'delete', ( file: TAbstractFile ) => {
+				this.notes.delete( file.path );
+			} )
+		);
+
+		this.plugin.registerEvent(
+			vault.on( 'rename', ( file: TAbstractFile, old_path: string ) => {
+				const figures = this.notes.get( old_path );
+				this.notes.delete( old_path );
+				if ( figures && isNote( file ) ) {
+					this.notes.set( file.path, figures );
+				}
+			} )
+		);
+	}
+
+	/**
+	 * Discards the index, e.g. when the caption settings change.
+	 * It is rebuilt on next use.
+	 */
+	invalidate() {
+		this.notes.clear();
+		this.built = false;
+	}
+
+	/**
+	 * @returns {Promise<IndexedFigure[]>} Captioned figures of the vault.
+	 */
+	async figures(): Promise<IndexedFigure[]> {
+		if ( ! this.built ) {
+			await this.build();
+		}
+
+		return Array.from( this.notes.values() ).flat();
+	}
+
+	/**
+	 * Indexes every note of the vault.
+	 */
+	async build() {
+		this.notes.clear();
+		for ( const file of this.plugin.app.vault.getMarkdownFiles() ) {
+			await this.indexNote( file );
+		}
+
+		this.built = true;
+	}
+
+	/**
+	 * @param {TFile} file - Note to index.
+	 */
+	async indexNote( file: TFile ) {
+		const figures = ( await noteFigures( this.plugin, file ) )
+			.filter( figure => figure.caption )
+			.map( figure => ( { file, figure } ) );
+
+		if ( figures.length ) {
+			this.notes.set( file.path, figures );
+		}
+		else {
+			this.notes.delete( file.path );
+		}
+	}
+}
+
+
+// *****************
+// *** functions ***
+// *****************
+
+/**
+ * @param {TAbstractFile} file - File to check.
+ * @returns {boolean} Whether the file is a Markdown note.
+ */
+function isNote( file: TAbstractFile ): boolean {
+	return ( file instanceof TFile ) && file.extension === 'md';
+}
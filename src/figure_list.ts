@@ -0,0 +1,191 @@
+import {
+	MarkdownRenderChild,
+	MarkdownView,
+	TFile
+} from 'obsidian';
+
+import ImageCaptionPlugin from './main';
+import {
+	EmbedType,
+	FigureEntry,
+	formatReference
+} from './common';
+import { parseSourceFigures } from './reader_observer';
+
+
+// *****************
+// *** functions ***
+// *****************
+
+/**
+ * Gets the figures of a note.
+ * Figures parsed by an open editor are used if available,
+ * otherwise the note's source is parsed.
+ *
+ * @param {ImageCaptionPlugin} plugin
+ * @param {TFile} file - Note to get the figures of.
+ * @returns {Promise<FigureEntry[]>} Figures of the note.
+ */
+export async function noteFigures(
+	plugin: ImageCaptionPlugin,
+	file: TFile
+): Promise<FigureEntry[]> {
+	const figures = plugin.getFigures( file.path );
+	if ( figures ) {
+		return figures;
+	}
+
+	const text = await plugin.app.vault.cachedRead( file );
+	const { embeds, captions, fig_nums, subfigures } = parseSourceFigures( plugin, text, file.path );
+	return embeds.map( ( embed, index ) => {
+		const fig_num = fig_nums[ index ] + subfigures[ index ];
+		return {
+			src: embed.src,
+			caption: plugin.templateCaption( captions[ index ]?.text, embed.src, file.path, fig_num ),
+			kind: captions[ index ]?.kind,
+			label: captions[ index ]?.label,
+			fig_num,
+			line: embed.line,
+			embed_type: embed.embed_type
+		};
+	} );
+}
+
+
+/**
+ * Opens a note scrolled to a figure.
+ * A leaf already showing the note is reused unless a new leaf is requested.
+ *
+ * @param {ImageCaptionPlugin} plugin
+ * @param {TFile} file - Note containing the figure.
+ * @param {FigureEntry} figure - Figure to open.
+ * @param {boolean} [new_leaf=false] - Open the note in a new leaf.
+ */
+export async function openFigure(
+	plugin: ImageCaptionPlugin,
+	file: TFile,
+	figure: FigureEntry,
+	new_leaf = false
+) {
+	const { workspace } = plugin.app;
+	const open_leaf = new_leaf
+		? undefined
+		: workspace.getLeavesOfType( 'markdown' ).find(
+			leaf => ( leaf.view as MarkdownView ).file?.path === file.path
+		);
+
+	const leaf = open_leaf ?? workspace.getLeaf( new_leaf );
+	await leaf.openFile( file, { eState: { line: figure.line } } );
+	workspace.setActiveLeaf( leaf, false, true );
+}
+
+
+/**
+ * Gets a URL the image of a figure can be displayed from.
+ *
+ * @param {ImageCaptionPlugin} plugin
+ * @param {TFile} file - Note containing the figure.
+ * @param {FigureEntry} figure - Figure to get the image of.
+ * @returns {string | null} URL of the image, or null if the image could not be found.
+ */
+export function figureResource(
+	plugin: ImageCaptionPlugin,
+	file: TFile,
+	figure: FigureEntry
+): string | null {
+	if ( figure.embed_type === EmbedType.External ) {
+		return figure.src;
+	}
+
+	const link_path = figure.src.split( '#' )[ 0 ];
+	const target = plugin.app.metadataCache.getFirstLinkpathDest( link_path, file.path );
+	return target ? plugin.app.vault.getResourcePath( target ) : null;
+}
+
+
+// *****************
+// *** renderers ***
+// *****************
+
+/**
+ * Renders a numbered List of Figures of a note, e.g. from a `figures` code block.
+ * The list is re-rendered when the figures of the note change.
+ */
+export class FigureListRenderer extends MarkdownRenderChild {
+	plugin: ImageCaptionPlugin;
+	source_path: string;
+
+	/**
+	 * @param {ImageCaptionPlugin} plugin
+	 * @param {HTMLElement} containerEl - Element to render the list in.
+	 * @param {string} source_path - Path of the note to list the figures of.
+	 */
+	constructor( plugin: ImageCaptionPlugin, containerEl: HTMLElement, source_path: string ) {
+		super( containerEl );
+		this.plugin = plugin;
+		this.source_path = source_path;
+	}
+
+	onload() {
+		this.render();
+		this.registerEvent(
+			this.plugin.figure_events.on(
+				ImageCaptionPlugin.figures_changed_event,
+				( path: string ) => {
+					if ( path === this.source_path ) {
+						this.render();
+					}
+				}
+			)
+		);
+	}
+
+	async render() {
+		const file = this.plugin.app.vault.getAbstractFileByPath( this.source_path );
+		if ( ! ( file instanceof TFile ) ) {
+			return;
+		}
+
+		let figures;
+		try {
+			figures = ( await noteFigures( this.plugin, file ) ).filter( fig => fig.caption );
+		}
+		catch ( err ) {
+			console.error( err );
+			this.containerEl.empty();
+			this.containerEl.createEl( 'p', {
+				text: `Could not list figures: ${err.message}`,
+				cls: 'image-caption-figure-list-error'
+			} );
+
+			return;
+		}
+
+		this.containerEl.empty();
+		this.containerEl.addClass( 'image-caption-figure-list' );
+		if ( ! figures.length ) {
+			this.containerEl.createEl( 'p', {
+				text: 'No captioned figures.',
+				cls: 'image-caption-figure-list-empty'
+			} );
+
+			return;
+		}
+
+		const list = this.containerEl.createEl( 'ol' );
+		for ( const figure of figures ) {
+			const item = list.createEl( 'li' );
+			const link = item.createEl( 'a', {
+				cls: 'image-caption-figure-list-link',
+				text: formatReference( this.plugin.referenceLabel( figure.kind ), figure.fig_num )
+			} );
+
+			link.addEventListener( 'click', ( evt: MouseEvent ) => {
+				evt.preventDefault();
+				openFigure( this.plugin, file, figure, evt.ctrlKey || evt.metaKey );
+			} );
+
+			item.createSpan( { cls: 'image-caption-figure-list-caption', text: figure.caption } );
+		}
+	}
+}
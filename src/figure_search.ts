@@ -0,0 +1,143 @@
+import {
+	Editor,
+	FuzzyMatch,
+	FuzzySuggestModal,
+	TFile,
+	renderResults
+} from 'obsidian';
+
+import ImageCaptionPlugin from './main';
+import {
+	EmbedType,
+	formatReference
+} from './common';
+import {
+	figureResource,
+	openFigure
+} from './figure_list';
+import { IndexedFigure } from './figure_index';
+
+
+// *************
+// *** types ***
+// *************
+
+/**
+ * What choosing a figure does.
+ * + Open: Open the note containing the figure, scrolled to it.
+ * + Insert: Insert an embed of the figure's image into an editor.
+ */
+export enum FigureSearchAction {
+	Open = 'open',
+	Insert = 'insert'
+}
+
+
+// **************
+// *** modals ***
+// **************
+
+/**
+ * Fuzzy search over the captions of the figures in the vault.
+ */
+export class FigureSearchModal extends FuzzySuggestModal<IndexedFigure> {
+	plugin: ImageCaptionPlugin;
+	figures: IndexedFigure[];
+	action: FigureSearchAction;
+	editor?: Editor;
+	source_path: string;
+
+	/**
+	 * @param {ImageCaptionPlugin} plugin
+	 * @param {IndexedFigure[]} figures - Figures to search.
+	 * @param {FigureSearchAction} action - What choosing a figure does.
+	 * @param {Editor} [editor] - Editor to insert embeds into.
+	 * @param {string} [source_path=''] - Path of the note being edited, used to create links.
+	 */
+	constructor(
+		plugin: ImageCaptionPlugin,
+		figures: IndexedFigure[],
+		action: FigureSearchAction,
+		editor?: Editor,
+		source_path = ''
+	) {
+		super( plugin.app );
+		this.plugin = plugin;
+		this.figures = figures;
+		this.action = action;
+		this.editor = editor;
+		this.source_path = source_path;
+
+		this.setPlaceholder( 'Search figure captions...' );
+		this.setInstructions( [
+			{ command: '↑↓', purpose: 'to navigate' },
+			action === FigureSearchAction.Insert
+				? { command: '↵', purpose: 'to insert image' }
+				: { command: '↵', purpose: 'to open note at figure' },
+			{ command: 'esc', purpose: 'to dismiss' }
+		] );
+	}
+
+	getItems(): IndexedFigure[] {
+		return this.figures;
+	}
+
+	getItemText( item: IndexedFigure ): string {
+		return item.figure.caption ?? '';
+	}
+
+	renderSuggestion( match: FuzzyMatch<IndexedFigure>, el: HTMLElement ) {
+		const { file, figure } = match.item;
+		el.addClass( 'image-caption-figure-search-item' );
+
+		const src = figureResource( this.plugin, file, figure );
+		const thumb = el.createDiv( { cls: 'image-caption-figure-search-thumbnail' } );
+		if ( src ) {
+			thumb.createEl( 'img', { attr: { src, alt: '', loading: 'lazy' } } );
+		}
+
+		const info = el.createDiv( { cls: 'image-caption-figure-search-info' } );
+		renderResults(
+			info.createDiv( { cls: 'image-caption-figure-search-caption' } ),
+			this.getItemText( match.item ),
+			match.match
+		);
+
+		const number = formatReference( this.plugin.referenceLabel( figure.kind ), figure.fig_num );
+		info.createDiv( {
+			cls: 'image-caption-figure-search-note',
+			text: `${number} · ${file.path}`
+		} );
+	}
+
+	onChooseItem( item: IndexedFigure, evt: MouseEvent | KeyboardEvent ) {
+		if ( this.action === FigureSearchAction.Insert ) {
+			this.editor?.replaceSelection( this.embedText( item ) );
+			return;
+		}
+
+		openFigure( this.plugin, item.file, item.figure, evt.ctrlKey || evt.metaKey );
+	}
+
+	/**
+	 * @param {IndexedFigure} item - Figure to embed.
+	 * @returns {string} Embed of the figure's image.
+	 */
+	embedText( item: IndexedFigure ): string {
+		const { file, figure } = item;
+		if ( figure.embed_type === EmbedType.External ) {
+			return `![](${figure.src})`;
+		}
+
+		const target = this.app.metadataCache.getFirstLinkpathDest(
+			figure.src.split( '#' )[ 0 ],
+			file.path
+		);
+
+		if ( ! ( target instanceof TFile ) ) {
+			return `![[${figure.src}]]`;
+		}
+
+		return '!' + this.app.fileManager.generateMarkdownLink( target, this.source_path );
+	}
+}
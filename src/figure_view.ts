@@ -0,0 +1,205 @@
+import {
+	ItemView,
+	TFile,
+	WorkspaceLeaf,
+	debounce
+} from 'obsidian';
+
+import ImageCaptionPlugin from './main';
+import {
+	FigureEntry,
+	formatReference
+} from './common';
+import {
+	figureResource,
+	noteFigures,
+	openFigure
+} from './figure_list';
+
+
+// *****************
+// *** constants ***
+// *****************
+
+export const FIGURE_VIEW_TYPE = 'image-caption-figures';
+
+
+// *************
+// *** views ***
+// *************
+
+/**
+ * Sidebar view listing the figures of the active note,
+ * with a thumbnail, number, and caption for each.
+ */
+export class FigureView extends ItemView {
+	plugin: ImageCaptionPlugin;
+	file: TFile | null;
+	filter: string;
+	filter_el: HTMLInputElement;
+	list_el: HTMLElement;
+
+	/**
+	 * @param {WorkspaceLeaf} leaf - Leaf containing the view.
+	 * @param {ImageCaptionPlugin} plugin
+	 */
+	constructor( leaf: WorkspaceLeaf, plugin: ImageCaptionPlugin ) {
+		super( leaf );
+		this.plugin = plugin;
+		this.file = null;
+		this.filter = '';
+	}
+
+	getViewType(): string {
+		return FIGURE_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return 'Figures';
+	}
+
+	getIcon(): string {
+		return 'image-file';
+	}
+
+	async onOpen() {
+		this.contentEl.empty();
+		this.contentEl.addClass( 'image-caption-figure-view' );
+
+		this.filter_el = this.contentEl.createEl( 'input', {
+			type: 'search',
+			cls: 'image-caption-figure-view-filter',
+			attr: { placeholder: 'Filter captions...' }
+		} );
+
+		this.filter_el.addEventListener( 'input', () => {
+			this.filter = this.filter_el.value.trim().toLowerCase();
+			this.render();
+		} );
+
+		this.list_el = this.contentEl.createDiv( { cls: 'image-caption-figure-view-list' } );
+
+		// figures are republished on every edit, so avoid redrawing thumbnails per keystroke
+		const request_render = debounce( () => this.render(), 300, true );
+		this.registerEvent(
+			this.plugin.figure_events.on(
+				ImageCaptionPlugin.figures_changed_event,
+				( path: string ) => {
+					if ( path === this.file?.path ) {
+						request_render();
+					}
+				}
+			)
+		);
+
+		this.registerEvent(
+			this.app.workspace.on( 'file-open', ( file: TFile | null ) => {
+				this.setFile( file );
+			} )
+		);
+
+		this.setFile( this.app.workspace.getActiveFile() );
+	}
+
+	/**
+	 * Shows the figures of a note.
+	 * Non-Markdown files are ignored so the list remains while e.g. an image is open.
+	 *
+	 * @param {TFile | null} file - Note to show the figures of.
+	 */
+	setFile( file: TFile | null ) {
+		if ( file && file.extension !== 'md' ) {
+			return;
+		}
+
+		this.file = file;
+		this.render();
+	}
+
+	async render() {
+		const file = this.file;
+		if ( ! file ) {
+			this.list_el.empty();
+			this.renderMessage( 'No note open.' );
+			return;
+		}
+
+		let figures;
+		try {
+			figures = await noteFigures( this.plugin, file );
+		}
+		catch ( err ) {
+			console.error( err );
+			if ( file === this.file ) {
+				this.list_el.empty();
+				this.renderMessage( `Could not list figures: ${err.message}` );
+			}
+
+			return;
+		}
+
+		if ( file !== this.file ) {
+			// note changed while parsing
+			return;
+		}
+
+		const shown = figures.filter( fig => this.matchesFilter( fig ) );
+		this.list_el.empty();
+		if ( ! shown.length ) {
+			this.renderMessage( figures.length ? 'No matching figures.' : 'No figures.' );
+			return;
+		}
+
+		for ( const figure of shown ) {
+			this.renderFigure( file, figure );
+		}
+	}
+
+	/**
+	 * @param {FigureEntry} figure - Figure to check.
+	 * @returns {boolean} Whether the figure's caption contains the filter text.
+	 */
+	matchesFilter( figure: FigureEntry ): boolean {
+		if ( ! this.filter ) {
+			return true;
+		}
+
+		return ( figure.caption ?? '' ).toLowerCase().includes( this.filter );
+	}
+
+	/**
+	 * @param {TFile} file - Note containing the figure.
+	 * @param {FigureEntry} figure - Figure to render an entry for.
+	 */
+	renderFigure( file: TFile, figure: FigureEntry ) {
+		const item = this.list_el.createDiv( { cls: 'image-caption-figure-view-item' } );
+
+		const src = figureResource( this.plugin, file, figure );
+		const thumb = item.createDiv( { cls: 'image-caption-figure-view-thumbnail' } );
+		if ( src ) {
+			thumb.createEl( 'img', { attr: { src, alt: figure.caption ?? '', loading: 'lazy' } } );
+		}
+
+		const info = item.createDiv( { cls: 'image-caption-figure-view-info' } );
+		info.createDiv( {
+			cls: 'image-caption-figure-view-number',
+			text: formatReference( this.plugin.referenceLabel( figure.kind ), figure.fig_num )
+		} );
+
+		info.createDiv( {
+			cls: 'image-caption-figure-view-caption',
+			text: figure.caption || figure.src
+		} );
+
+		item.addEventListener( 'click', ( evt: MouseEvent ) => {
+			openFigure( this.plugin, file, figure, evt.ctrlKey || evt.metaKey );
+		} );
+	}
+
+	/**
+	 * @param {string} text - Message to show in place of the list.
+	 */
+	renderMessage( text: string ) {
+		this.list_el.createDiv( { cls: 'image-caption-figure-view-empty', text } );
+	}
+}
@@ -0,0 +1,431 @@
+import { TFile } from 'obsidian';
+
+import ImageCaptionPlugin from './main';
+
+
+// *****************
+// *** constants ***
+// *****************
+
+/**
+ * File extensions of images whose metadata can be read.
+ */
+const METADATA_EXTENSIONS = [ 'png', 'jpg', 'jpeg' ];
+
+/**
+ * PNG file signature.
+ */
+const PNG_SIGNATURE = [ 0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a ];
+
+/**
+ * Keyword of PNG text chunks holding the image description.
+ */
+const PNG_DESCRIPTION_KEYWORD = 'Description';
+
+/**
+ * Keyword of PNG text chunks holding an XMP packet.
+ */
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+/**
+ * Header of JPEG APP1 segments holding EXIF data.
+ */
+const EXIF_HEADER = 'Exif\0\0';
+
+/**
+ * Header of JPEG APP1 segments holding an XMP packet.
+ */
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+
+/**
+ * EXIF tag of the image description.
+ */
+const EXIF_IMAGE_DESCRIPTION = 0x010e;
+
+/**
+ * Matches the `dc:description` of an XMP packet, capturing its content.
+ */
+const XMP_DESCRIPTION_PATTERN = /<dc:description\b[^>]*>([\s\S]*?)<\/dc:description>/;
+
+/**
+ * Matches the alternatives of an XMP language alternative, capturing the language and text.
+ */
+const XMP_ALTERNATIVE_PATTERN = /<rdf:li\b[^>]*?(?:xml:lang=["']([^"']*)["'][^>]*)?>([\s\S]*?)<\/rdf:li>/g;
+
+
+// *****************
+// *** functions ***
+// *****************
+
+/**
+ * Reads the description embedded in an image file.
+ * Sources, in order of precedence, are
+ * + PNG: Uncompressed `tEXt` or `iTXt` chunk with the Description keyword,
+ *     then the XMP `dc:description`.
+ * + JPEG: EXIF `ImageDescription`, then the XMP `dc:description`.
+ *
+ * @param {ArrayBuffer} data - Contents of the image file.
+ * @returns {string | undefined} Description of the image, if it has one.
+ */
+export function imageDescription( data: ArrayBuffer ): string | undefined {
+	const bytes = new Uint8Array( data );
+	if ( PNG_SIGNATURE.every( ( byte, index ) => bytes[ index ] === byte ) ) {
+		return pngDescription( bytes );
+	}
+
+	if ( bytes[ 0 ] === 0xff && bytes[ 1 ] === 0xd8 ) {
+		return jpegDescription( bytes );
+	}
+
+	return undefined;
+}
+
+
+/**
+ * @param {Uint8Array} bytes - Contents of a PNG file.
+ * @returns {string | undefined} Description of the image, if it has one.
+ */
+function pngDescription( bytes: Uint8Array ): string | undefined {
+	const view = new DataView( bytes.buffer, bytes.byteOffset, bytes.byteLength );
+	let xmp;
+	let pos = PNG_SIGNATURE.length;
+	while ( pos + 8 <= bytes.length ) {
+		const length = view.getUint32( pos );
+		const type = latin1( bytes, pos + 4, pos + 8 );
+		const start = pos + 8;
+		const end = Math.min( start + length, bytes.length );
+		if ( type === 'IDAT' || type === 'IEND' ) {
+			// text chunks describing the image precede its data
+			break;
+		}
+
+		if ( type === 'tEXt' || type === 'iTXt' ) {
+			const chunk = bytes.subarray( start, end );
+			const text = type === 'tEXt' ? pngText( chunk ) : pngInternationalText( chunk );
+			if ( text?.keyword === PNG_DESCRIPTION_KEYWORD && text.text.trim() ) {
+				return text.text.trim();
+			}
+
+			if ( text?.keyword === PNG_XMP_KEYWORD ) {
+				xmp = xmpDescription( text.text );
+			}
+		}
+
+		pos = end + 4;  // skip crc
+	}
+
+	return xmp;
+}
+
+
+/**
+ * @param {Uint8Array} chunk - Data of a `tEXt` chunk.
+ * @returns {{ keyword: string, text: string } | null} Contents of the chunk,
+ * 		or null if it is malformed.
+ */
+function pngText( chunk: Uint8Array ): { keyword: string, text: string } | null {
+	const sep = chunk.indexOf( 0 );
+	if ( sep === -1 ) {
+		return null;
+	}
+
+	return {
+		keyword: latin1( chunk, 0, sep ),
+		text: latin1( chunk, sep + 1, chunk.length )
+	};
+}
+
+
+/**
+ * Compressed chunks are ignored.
+ *
+ * @param {Uint8Array} chunk - Data of an `iTXt` chunk.
+ * @returns {{ keyword: string, text: string } | null} Contents of the chunk,
+ * 		or null if it is malformed or compressed.
+ */
+function pngInternationalText( chunk: Uint8Array ): { keyword: string, text: string } | null {
+	const keyword_end = chunk.indexOf( 0 );
+	if ( keyword_end === -1 || chunk[ keyword_end + 1 ] !== 0 ) {
+		return null;
+	}
+
+	// skip compression flag and method, then the language and translated keyword
+	const lang_end = chunk.indexOf( 0, keyword_end + 3 );
+	const translated_end = lang_end === -1 ? -1 : chunk.indexOf( 0, lang_end + 1 );
+	if ( translated_end === -1 ) {
+		return null;
+	}
+
+	return {
+		keyword: latin1( chunk, 0, keyword_end ),
+		text: utf8( chunk.subarray( translated_end + 1 ) )
+	};
+}
+
+
+/**
+ * @param {Uint8Array} bytes - Contents of a JPEG file.
+ * @returns {string | undefined} Description of the image, if it has one.
+ */
+function jpegDescription( bytes: Uint8Array ): string | undefined {
+	const view = new DataView( bytes.buffer, bytes.byteOffset, bytes.byteLength );
+	let xmp;
+	let pos = 2;
+	while ( pos + 4 <= bytes.length && bytes[ pos ] === 0xff ) {
+		const marker = bytes[ pos + 1 ];
+		if ( marker === 0xda || marker === 0xd9 ) {
+			// start of scan or end of image, metadata precedes both
+			break;
+		}
+
+		const length = view.getUint16( pos + 2 );
+		const start = pos + 4;
+		const end = Math.min( pos + 2 + length, bytes.length );
+		if ( marker === 0xe1 ) {
+			const segment = bytes.subarray( start, end );
+			if ( latin1( segment, 0, EXIF_HEADER.length ) === EXIF_HEADER ) {
+				const description = exifDescription( segment.subarray( EXIF_HEADER.length ) );
+				if ( description ) {
+					return description;
+				}
+			}
+			else if ( latin1( segment, 0, XMP_HEADER.length ) === XMP_HEADER ) {
+				xmp = xmpDescription( utf8( segment.subarray( XMP_HEADER.length ) ) );
+			}
+		}
+
+		pos = end;
+	}
+
+	return xmp;
+}
+
+
+/**
+ * Reads the `ImageDescription` tag of the first IFD of EXIF data.
+ *
+ * @param {Uint8Array} tiff - EXIF data, starting with its TIFF header.
+ * @returns {string | undefined} Description of the image, if it has one.
+ */
+function exifDescription( tiff: Uint8Array ): string | undefined {
+	if ( tiff.length < 8 ) {
+		return undefined;
+	}
+
+	const view = new DataView( tiff.buffer, tiff.byteOffset, tiff.byteLength );
+	const little = latin1( tiff, 0, 2 ) === 'II';
+	const ifd = view.getUint32( 4, little );
+	if ( ifd + 2 > tiff.length ) {
+		return undefined;
+	}
+
+	const entries = view.getUint16( ifd, little );
+	for ( let index = 0; index < entries; index++ ) {
+		const entry = ifd + 2 + index * 12;
+		if ( entry + 12 > tiff.length ) {
+			break;
+		}
+
+		if ( view.getUint16( entry, little ) !== EXIF_IMAGE_DESCRIPTION ) {
+			continue;
+		}
+
+		// ascii values of up to 4 bytes are stored in place of the offset
+		const count = view.getUint32( entry + 4, little );
+		const start = count <= 4 ? entry + 8 : view.getUint32( entry + 8, little );
+		const end = Math.min( start + count, tiff.length );
+		const text = utf8( tiff.subarray( start, end ) ).replace( /\0+$/, '' ).trim();
+		return text || undefined;
+	}
+
+	return undefined;
+}
+
+
+/**
+ * Reads the `dc:description` of an XMP packet,
+ * preferring the default language alternative.
+ *
+ * @param {string} xmp - XMP packet.
+ * @returns {string | undefined} Description of the image, if it has one.
+ */
+export function xmpDescription( xmp: string ): string | undefined {
+	const match = xmp.match( XMP_DESCRIPTION_PATTERN );
+	if ( ! match ) {
+		return undefined;
+	}
+
+	const alternatives = Array.from( match[ 1 ].matchAll( XMP_ALTERNATIVE_PATTERN ) );
+	const chosen = alternatives.find( alt => alt[ 1 ] === 'x-default' ) ?? alternatives[ 0 ];
+	const text = decodeXmlEntities( chosen ? chosen[ 2 ] : match[ 1 ] ).trim();
+	return text || undefined;
+}
+
+
+/**
+ * @param {string} text - XML text content.
+ * @returns {string} Text with character references and predefined entities replaced.
+ */
+function decodeXmlEntities( text: string ): string {
+	const entities: Record<string, string> = {
+		amp: '&', lt: '<', gt: '>', quot: '"', apos: "'"
+	};
+
+	return text.replace( /&(#x[0-9a-f]+|#\d+|\w+);/gi, ( entity, name: string ) => {
+		if ( name[ 0 ] === '#' ) {
+			const code = name[ 1 ].toLowerCase() === 'x'
+				? parseInt( name.slice( 2 ), 16 )
+				: parseInt( name.slice( 1 ), 10 );
+
+			return String.fromCodePoint( code );
+		}
+
+		return entities[ name ] ?? entity;
+	} );
+}
+
+
+/**
+ * @param {Uint8Array} bytes - Bytes to decode.
+ * @param {number} start - Index of the first byte.
+ * @param {number} end - Index after the last byte.
+ * @returns {string} Bytes decoded as Latin-1.
+ */
+function latin1( bytes: Uint8Array, start: number, end: number ): string {
+	return String.fromCharCode( ...bytes.subarray( start, end ) );
+}
+
+
+/**
+ * @param {Uint8Array} bytes - Bytes to decode.
+ * @returns {string} Bytes decoded as UTF-8.
+ */
+function utf8( bytes: Uint8Array ): string {
+	return new TextDecoder( 'utf-8' ).decode( bytes );
+}
+
+
+// ***************
+// *** classes ***
+// ***************
+
+/**
+ * Descriptions read from the metadata of images, used as fallback captions.
+ * Descriptions are read in the background and cached until the image changes.
+ */
+export class MetadataCaptionCache {
+	plugin: ImageCaptionPlugin;
+	captions: Map<string, { mtime: number, caption?: string }>;
+	pending: Map<string, Promise<string | undefined>>;
+
+	/**
+	 * @param {ImageCaptionPlugin} plugin
+	 */
+	constructor( plugin: ImageCaptionPlugin ) {
+		this.plugin = plugin;
+		this.captions = new Map();
+		this.pending = new Map();
+	}
+
+	/**
+	 * Gets the cached metadata caption of an image,
+	 * reading it in the background if it is not cached.
+	 * Listeners are notified once a caption is read.
+	 *
+	 * @param {string} src - Link to the image.
+	 * @param {string} source_path - Path of the note containing the link.
+	 * @returns {string | undefined} Caption of the image, if cached.
+	 */
+	get( src: string, source_path: string ): string | undefined {
+		const file = this.resolve( src, source_path );
+		if ( ! file ) {
+			return undefined;
+		}
+
+		const cached = this.captions.get( file.path );
+		if ( cached && cached.mtime === file.stat.mtime ) {
+			return cached.caption;
+		}
+
+		this.read( file );
+		return undefined;
+	}
+
+	/**
+	 * @param {string} src - Link to the image.
+	 * @param {string} source_path - Path of the note containing the link.
+	 * @returns {Promise<string | undefined>} Caption of the image, if it has one.
+	 */
+	async load( src: string, source_path: string ): Promise<string | undefined> {
+		const file = this.resolve( src, source_path );
+		if ( ! file ) {
+			return undefined;
+		}
+
+		const cached = this.captions.get( file.path );
+		if ( cached && cached.mtime === file.stat.mtime ) {
+			return cached.caption;
+		}
+
+		return this.read( file );
+	}
+
+	/**
+	 * Discards all cached captions.
+	 */
+	clear() {
+		this.captions.clear();
+	}
+
+	/**
+	 * @param {string} src - Link to the image.
+	 * @param {string} source_path - Path of the note containing the link.
+	 * @returns {TFile | null} Image file, or null if metadata captions are disabled
+	 * 		or the image can not be read.
+	 */
+	resolve( src: string, source_path: string ): TFile | null {
+		if ( ! this.plugin.settings.metadataCaptions ) {
+			return null;
+		}
+
+		const file = this.plugin.app.metadataCache.getFirstLinkpathDest( src.split( '#' )[ 0 ], source_path );
+		if ( ! file || ! METADATA_EXTENSIONS.contains( file.extension.toLowerCase() ) ) {
+			return null;
+		}
+
+		return file;
+	}
+
+	/**
+	 * Reads the caption of an image, caching the result.
+	 *
+	 * @param {TFile} file - Image file.
+	 * @returns {Promise<string | undefined>} Caption of the image, if it has one.
+	 */
+	read( file: TFile ): Promise<string | undefined> {
+		const pending = this.pending.get( file.path );
+		if ( pending ) {
+			return pending;
+		}
+
+		const mtime = file.stat.mtime;
+		const reading = this.plugin.app.vault.readBinary( file )
+			.then( data => imageDescription( data ) )
+			.catch( ( err ) => {
+				console.debug( `could not read metadata of ${file.path}`, err );
+				return undefined;
+			} )
+			.then( caption => {
+				this.pending.delete( file.path );
+				this.captions.set( file.path, { mtime, caption } );
+				if ( caption ) {
+					this.plugin.figure_events.trigger( ImageCaptionPlugin.metadata_loaded_event, file.path );
+				}
+
+				return caption;
+			} );
+
+		this.pending.set( file.path, reading );
+		return reading;
+	}
+}
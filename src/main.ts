@@ -1,24 +1,67 @@
 import {
 	App,
+	Events,
 	MarkdownView,
+	Notice,
 	Plugin,
 	PluginSettingTab,
-	Setting
+	Setting,
+	debounce,
+	moment
 } from 'obsidian';
 
 import {
 	processInternalImageCaption,
 	processExternalImageCaption,
-} from './md_processor';
+	processFigureReferences,
+} from './reader_observer';
 
+import {
+	CaptionFormat,
+	CaptionPosition,
+	NumberingMode,
+	NumberStyle,
+	FigureEntry,
+	FigureInfo,
+	FigureKind,
+	TemplateVariables,
+	KIND_NAME_PATTERN,
+	applyCaptionTemplate,
+	figureNumbers,
+	formatReference,
+	parseDelimeter,
+	srcFilename
+} from './common';
+import { exportPandoc } from './pandoc_export';
+import { writeAuditReport } from './audit';
+import { FigureListRenderer } from './figure_list';
+import { FIGURE_VIEW_TYPE, FigureView } from './figure_view';
+import { FigureIndex } from './figure_index';
+import { CaptionLinkIndex } from './caption_links';
+import { MetadataCaptionCache } from './image_metadata';
+import { FigureSearchAction, FigureSearchModal } from './figure_search';
 import { processPreviewImageCaption } from './preview_processor';
 import { viewObserver } from './view_observer';
+import { captionDiagnosticsExtension } from './diagnostics';
 
 interface ImageCaptionSettings {
 	css: string;
 	label: string;
 	delimeter: string[];
     htmlCaption: boolean;
+	markdownCaption: boolean;
+	captionPosition: CaptionPosition;
+	sourcePreview: boolean;
+	metadataCaptions: boolean;
+	captionTemplate: string;
+	referenceLabel: string;
+	labelSeparator: string;
+	numbering: NumberingMode;
+	numberStyle: NumberStyle;
+	numberStart: number;
+	sectionLevel: number;
+	subfigures: boolean;
+	kinds: FigureKind[];
 }
 
 const DEFAULT_SETTINGS: ImageCaptionSettings = {
@@ -26,6 +69,19 @@ const DEFAULT_SETTINGS: ImageCaptionSettings = {
 	label: '',
 	delimeter: [],
     htmlCaption: false,
+	markdownCaption: false,
+	captionPosition: CaptionPosition.Below,
+	sourcePreview: false,
+	metadataCaptions: false,
+	captionTemplate: '',
+	referenceLabel: 'Figure #',
+	labelSeparator: '',
+	numbering: NumberingMode.Flat,
+	numberStyle: NumberStyle.Arabic,
+	numberStart: 1,
+	sectionLevel: 1,
+	subfigures: false,
+	kinds: [],
 }
 
 
@@ -33,14 +89,46 @@ export default class ImageCaptionPlugin extends Plugin {
 	settings: ImageCaptionSettings;
     caption_observers: MutationObserver[];
     stylesheet: HTMLElement; 
+	figures: Map<string, FigureEntry[]>;
+	figure_events: Events;
+	figure_index: FigureIndex;
+	caption_links: CaptionLinkIndex;
+	metadata_captions: MetadataCaptionCache;
 
 	static caption_tag: string = 'figcaption';
 	static caption_class: string = 'obsidian-image-caption';
 	static caption_selector: string = `${ImageCaptionPlugin.caption_tag}.${ImageCaptionPlugin.caption_class}`;
+	static caption_label_class: string = 'image-caption-label';
+	static caption_text_class: string = 'image-caption-text';
+	static external_container_class: string = 'obsidian-image-caption-external-embed';
+	static group_container_class: string = 'image-caption-figure-group';
+	static figures_changed_event: string = 'figures-changed';
+	static metadata_loaded_event: string = 'metadata-loaded';
+	static settings_changed_event: string = 'settings-changed';
+	static frontmatter_keys = {
+		label: 'image-caption-label',
+		delimeter: 'image-caption-delimiter',
+		start: 'image-caption-start',
+		html: 'image-caption-html',
+		template: 'image-caption-template',
+	};
     
 
 	async onload() {
 		await this.loadSettings();
+		this.figures = new Map();
+		this.figure_events = new Events();
+		this.figure_index = new FigureIndex( this );
+		this.figure_index.register();
+		this.caption_links = new CaptionLinkIndex( this );
+		this.caption_links.register();
+		this.registerEvent(
+			this.app.vault.on( 'delete', ( file ) => this.clearFigures( file.path ) )
+		);
+		this.registerEvent(
+			this.app.vault.on( 'rename', ( file, old_path ) => this.clearFigures( old_path ) )
+		);
+		this.metadata_captions = new MetadataCaptionCache( this );
 
         // register processors for preview mode
         // const previewProcessor = processPreviewImageCaption( this );
@@ -48,11 +136,117 @@ export default class ImageCaptionPlugin extends Plugin {
 		
         const viewObs = viewObserver(this);
 		this.registerEditorExtension(viewObs);
+		this.registerEditorExtension( captionDiagnosticsExtension( this ) );
 
         // register processors for read mode
 		this.caption_observers = [];
-		// this.registerMarkdownPostProcessor( processInternalImageCaption( this ) );
-		// this.registerMarkdownPostProcessor( processExternalImageCaption( this ) );
+		this.registerMarkdownPostProcessor( processInternalImageCaption( this ) );
+		this.registerMarkdownPostProcessor( processExternalImageCaption( this ) );
+		this.registerMarkdownPostProcessor( processFigureReferences( this ) );
+
+		// list of figures
+		this.registerMarkdownCodeBlockProcessor( 'figures', ( source, el, ctx ) => {
+			ctx.addChild( new FigureListRenderer( this, el, ctx.sourcePath ) );
+		} );
+
+		this.addCommand( {
+			id: 'insert-figure-list',
+			name: 'Insert list of figures',
+			editorCallback: ( editor ) => {
+				editor.replaceSelection( '```figures\n```\n' );
+			}
+		} );
+
+		// figures sidebar
+		this.registerView( FIGURE_VIEW_TYPE, ( leaf ) => new FigureView( leaf, this ) );
+		this.addCommand( {
+			id: 'open-figures-view',
+			name: 'Open figures panel',
+			callback: () => {
+				this.activateFigureView();
+			}
+		} );
+
+		// vault figure search
+		this.addCommand( {
+			id: 'search-figures',
+			name: 'Search figures in vault',
+			callback: () => {
+				this.figure_index.figures().then( ( figures ) => {
+					new FigureSearchModal( this, figures, FigureSearchAction.Open ).open();
+				} ).catch( ( err ) => {
+					console.error( err );
+					new Notice( `Could not search figures: ${err.message}` );
+				} );
+			}
+		} );
+
+		this.addCommand( {
+			id: 'insert-figure-from-search',
+			name: 'Insert image from figure search',
+			editorCallback: ( editor, view ) => {
+				this.figure_index.figures().then( ( figures ) => {
+					new FigureSearchModal(
+						this, figures, FigureSearchAction.Insert, editor, view.file?.path
+					).open();
+				} ).catch( ( err ) => {
+					console.error( err );
+					new Notice( `Could not search figures: ${err.message}` );
+				} );
+			}
+		} );
+
+		// accessibility audit
+		this.addCommand( {
+			id: 'audit-note-images',
+			name: 'Audit image accessibility in active note',
+			checkCallback: ( checking: boolean ) => {
+				const file = this.app.workspace.getActiveFile();
+				if ( ! file || file.extension !== 'md' ) {
+					return false;
+				}
+
+				if ( ! checking ) {
+					writeAuditReport( this, [ file ] ).catch( ( err ) => {
+						console.error( err );
+						new Notice( `Could not audit ${file.path}: ${err.message}` );
+					} );
+				}
+
+				return true;
+			}
+		} );
+
+		this.addCommand( {
+			id: 'audit-vault-images',
+			name: 'Audit image accessibility in vault',
+			callback: () => {
+				writeAuditReport( this, this.app.vault.getMarkdownFiles() ).catch( ( err ) => {
+					console.error( err );
+					new Notice( `Could not audit the vault: ${err.message}` );
+				} );
+			}
+		} );
+
+		this.addCommand( {
+			id: 'export-pandoc',
+			name: 'Export note with Pandoc figures',
+			checkCallback: ( checking: boolean ) => {
+				const file = this.app.workspace.getActiveFile();
+				if ( ! file || file.extension !== 'md' ) {
+					return false;
+				}
+
+				if ( ! checking ) {
+					exportPandoc( this, file ).catch( ( err ) => {
+						console.error( err );
+						new Notice( `Could not export ${file.path}: ${err.message}` );
+					} );
+				}
+
+				return true;
+			}
+		} );
 
 		this.addStylesheet();
 		this.addSettingTab( new ImageCaptionSettingTab( this.app, this ) );
@@ -63,16 +257,92 @@ export default class ImageCaptionPlugin extends Plugin {
             this.stylesheet.remove();
         }
 
-		// this.clearObservers();
-		// this.removeCaptions();
+		this.clearObservers();
+		this.removeCaptions();
+		this.caption_links.clear();
+		this.app.workspace.detachLeavesOfType( FIGURE_VIEW_TYPE );
 	}
 
 	async loadSettings() {
 		this.settings = Object.assign( {}, DEFAULT_SETTINGS, await this.loadData() );
+
+		// drop kinds that were never named
+		this.settings.kinds = this.settings.kinds.filter( kind => KIND_NAME_PATTERN.test( kind.name ) );
 	}
 
 	async saveSettings() {
 		await this.saveData( this.settings );
+		this.figure_index?.invalidate();  // caption rules may have changed
+		this.caption_links?.invalidate();
+	}
+
+	/**
+	 * Updates the open notes after a settings change.
+	 * Editors recaption their note, and notes in reading view are rendered again,
+	 * as the post processors only run when a note is rendered.
+	 */
+	updateViews() {
+		this.app.workspace.updateOptions();
+		this.figure_events.trigger( ImageCaptionPlugin.settings_changed_event );
+		this.rerenderPreviews();
+	}
+
+	/**
+	 * Rerenders the notes open in reading view.
+	 * Debounced, as text settings change with each key press.
+	 */
+	rerenderPreviews = debounce( () => {
+		this.app.workspace.getLeavesOfType( 'markdown' ).forEach( ( leaf ) => {
+			if ( leaf.view instanceof MarkdownView ) {
+				leaf.view.previewMode.rerender( true );
+			}
+		} );
+	}, 500, true );
+
+	/**
+	 * Sets the figures of a note, notifying listeners of the change.
+	 * 
+	 * @param {string} path - Path of the note.
+	 * @param {FigureEntry[]} figures - Figures of the note.
+	 */
+	setFigures( path: string, figures: FigureEntry[] ) {
+		this.figures.set( path, figures );
+		this.figure_events.trigger( ImageCaptionPlugin.figures_changed_event, path );
+	}
+
+	/**
+	 * Forgets the figures of a note, e.g. once it is no longer open in an editor,
+	 * so they are parsed from the file again.
+	 * 
+	 * @param {string} path - Path of the note.
+	 */
+	clearFigures( path: string ) {
+		if ( this.figures.delete( path ) ) {
+			this.figure_events.trigger( ImageCaptionPlugin.figures_changed_event, path );
+		}
+	}
+
+	/**
+	 * @param {string} path - Path of the note.
+	 * @returns {FigureEntry[] | undefined} Figures of the note,
+	 * 		or undefined if the note has not been parsed by an editor.
+	 */
+	getFigures( path: string ): FigureEntry[] | undefined {
+		return this.figures.get( path );
+	}
+
+	/**
+	 * Reveals the figures panel, opening it in the right sidebar if needed.
+	 */
+	async activateFigureView() {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType( FIGURE_VIEW_TYPE )[ 0 ];
+		if ( ! leaf ) {
+			leaf = workspace.getRightLeaf( false );
+			await leaf.setViewState( { type: FIGURE_VIEW_TYPE, active: true } );
+		}
+
+		workspace.revealLeaf( leaf );
 	}
 
 	addObserver( observer: MutationObserver ) {
@@ -102,20 +372,180 @@ export default class ImageCaptionPlugin extends Plugin {
 
 	updateStylesheet() {
 		const css = this.settings.css ? `${ImageCaptionPlugin.caption_selector} { ${this.settings.css} }` : '';
+		this.stylesheet.innerText = css;
+	}
+
+	/**
+	 * Gets the settings of a note, with the overrides from its frontmatter applied.
+	 * Invalid overrides are ignored.
+	 * 
+	 * @param {string} source_path - Path of the note.
+	 * @returns {ImageCaptionSettings} Settings of the note.
+	 */
+	noteSettings( source_path: string ): ImageCaptionSettings {
+		const frontmatter = source_path
+			? this.app.metadataCache.getCache( source_path )?.frontmatter
+			: undefined;
+
+		if ( ! frontmatter ) {
+			return this.settings;
+		}
+
+		const keys = ImageCaptionPlugin.frontmatter_keys;
+		const settings = { ...this.settings };
 
-		let label = this.settings.label;
-		if ( label ) {
-			// replace all unescaped hashtags with image index
-			const number_pattern = /(^|[^\\])#/g;
-			label = label.replace( number_pattern, "$1' attr(data-image-caption-fignum) '" );  // inner quotes used to kill string and insert attr. + between strings breaks it.
-			
-			// Replace escaped hashtags with hashtags
-			label = label.replace( '\\#', '#' );
+		const label = frontmatter[ keys.label ];
+		if ( typeof label === 'string' ) {
+			settings.label = label.trim();
+		}
+
+		let delimeter = frontmatter[ keys.delimeter ];
+		if ( Array.isArray( delimeter ) ) {
+			delimeter = delimeter.join( ',' );
+		}
+
+		if ( typeof delimeter === 'string' ) {
+			settings.delimeter = parseDelimeter( delimeter ) ?? settings.delimeter;
+		}
+
+		const start = frontmatter[ keys.start ];
+		if ( Number.isInteger( start ) && start >= 0 ) {
+			settings.numberStart = start;
+		}
+
+		const html = frontmatter[ keys.html ];
+		if ( typeof html === 'boolean' ) {
+			settings.htmlCaption = html;
+			if ( html ) {
+				// markdown would otherwise take precedence
+				settings.markdownCaption = false;
+			}
+		}
+
+		const template = frontmatter[ keys.template ];
+		if ( typeof template === 'string' ) {
+			settings.captionTemplate = template;
+		}
+
+		return settings;
+	}
+
+	/**
+	 * @param {string} source_path - Path of the note.
+	 * @returns {CaptionFormat} How caption text is inserted in the note.
+	 */
+	captionFormat( source_path: string ): CaptionFormat {
+		const settings = this.noteSettings( source_path );
+		if ( settings.markdownCaption ) {
+			return CaptionFormat.Markdown;
+		}
+
+		return settings.htmlCaption ? CaptionFormat.Html : CaptionFormat.Text;
+	}
+
+	/**
+	 * @param {string} source_path - Path of the note.
+	 * @returns {string} Caption template of the note.
+	 */
+	captionTemplate( source_path: string ): string {
+		return this.noteSettings( source_path ).captionTemplate;
+	}
+
+	/**
+	 * @param {string} src - Source of the image.
+	 * @param {string} source_path - Path of the note containing the image.
+	 * @param {string} [fig_num=''] - Figure number of the image.
+	 * @returns {TemplateVariables} Values of the caption template variables for the image.
+	 */
+	templateVariables( src: string, source_path: string, fig_num = '' ): TemplateVariables {
+		const file = this.app.metadataCache.getFirstLinkpathDest( src.split( '#' )[ 0 ], source_path );
+		const filename = file ? file.name : srcFilename( src );
+		const note = source_path.split( '/' ).pop() ?? '';
+
+		return {
+			filename,
+			basename: file ? file.basename : filename.replace( /\.[^.]*$/, '' ),
+			note: note.replace( /\.md$/, '' ),
+			index: fig_num,
+			date: file ? moment( file.stat.mtime ).format( 'YYYY-MM-DD' ) : ''
+		};
+	}
+
+	/**
+	 * Applies the caption template of a note to the caption of an image,
+	 * so figures are listed with the caption they are displayed with.
+	 * 
+	 * @param {string | undefined} caption - Caption of the image, if it has one.
+	 * @param {string} src - Source of the image.
+	 * @param {string} source_path - Path of the note containing the image.
+	 * @param {string} [fig_num=''] - Figure number of the image.
+	 * @returns {string | undefined} Displayed caption, or undefined if the image has none.
+	 */
+	templateCaption( caption: string | undefined, src: string, source_path: string, fig_num = '' ): string | undefined {
+		return applyCaptionTemplate(
+			this.captionTemplate( source_path ),
+			caption,
+			this.templateVariables( src, source_path, fig_num )
+		);
+	}
+
+	/**
+	 * @returns {string[]} Names of the defined figure kinds.
+	 * 		Kinds not named yet are left out.
+	 */
+	kindNames(): string[] {
+		return this.settings.kinds
+			.map( kind => kind.name )
+			.filter( name => KIND_NAME_PATTERN.test( name ) );
+	}
 
-			label = `${ImageCaptionPlugin.caption_selector}::before { content: '${label} ' }`;  // additional space in content intentional
+	/**
+	 * @param {string} [kind] - Name of the figure kind, or undefined for the default kind.
+	 * @returns {string} Reference text template of the figure kind.
+	 */
+	referenceLabel( kind?: string ): string {
+		const figure_kind = this.settings.kinds.find( k => k.name === kind );
+		return figure_kind?.reference || this.settings.referenceLabel;
+	}
+
+	/**
+	 * @param {string} source_path - Path of the note containing the caption.
+	 * @param {string} fig_num - Figure number of the caption.
+	 * @param {string} [kind] - Name of the figure kind, or undefined for the default kind.
+	 * @returns {string} Label text of the caption, including the separator,
+	 * 		or an empty string if the figure kind has no label.
+	 */
+	captionLabel( source_path: string, fig_num: string, kind?: string ): string {
+		const figure_kind = this.settings.kinds.find( k => k.name === kind );
+		const label = figure_kind ? figure_kind.label : this.noteSettings( source_path ).label;  // kinds without a label do not fall back
+		if ( ! label ) {
+			return '';
 		}
 
-		this.stylesheet.innerText = `${css} ${label}`;
+		return formatReference( label, fig_num ) + this.settings.labelSeparator;
+	}
+
+	/**
+	 * @param {string} letter - Letter of the subfigure.
+	 * @returns {string} Label text of the subfigure's caption.
+	 */
+	subfigureLabel( letter: string ): string {
+		return `(${letter})`;
+	}
+
+	/**
+	 * @param {string} source_path - Path of the note containing the figures.
+	 * @param {FigureInfo[]} figures - Section and kind of each image, in document order.
+	 * @returns {string[]} Figure number of each image, using the numbering settings of the note.
+	 */
+	figureNumbers( source_path: string, figures: FigureInfo[] ): string[] {
+		const settings = this.noteSettings( source_path );
+		return figureNumbers(
+			figures,
+			settings.numbering,
+			settings.numberStyle,
+			settings.numberStart
+		);
 	}
 
 	removeCaptions() {
@@ -142,17 +572,200 @@ class ImageCaptionSettingTab extends PluginSettingTab {
 		// label
 		new Setting( containerEl )
 			.setName( 'Label' )
-			.setDesc( 'Prepend this text before each caption.' )
+			.setDesc( 'Prepend this text before each caption. Use # for the figure number.' )
 			.addText( ( text ) => text
 				.setPlaceholder( 'Label' )
 				.setValue( this.plugin.settings.label )
 				.onChange( async ( value ) => {
 					this.plugin.settings.label = value.trim();
 					await this.plugin.saveSettings();
-					this.plugin.updateStylesheet();
+					this.plugin.updateViews();
 				} )
 			);
 
+		// label separator
+		new Setting( containerEl )
+			.setName( 'Label separator' )
+			.setDesc( 'Text placed between the label and the caption, e.g. a colon.' )
+			.addText( ( text ) => text
+				.setPlaceholder( ':' )
+				.setValue( this.plugin.settings.labelSeparator )
+				.onChange( async ( value ) => {
+					this.plugin.settings.labelSeparator = value.trimEnd();
+					await this.plugin.saveSettings();
+					this.plugin.updateViews();
+				} )
+			);
+
+		// reference label
+		new Setting( containerEl )
+			.setName( 'Reference label' )
+			.setDesc( 'Text displayed for figure references. Use # for the figure number.' )
+			.addText( ( text ) => text
+				.setPlaceholder( 'Figure #' )
+				.setValue( this.plugin.settings.referenceLabel )
+				.onChange( async ( value ) => {
+					this.plugin.settings.referenceLabel = value.trim() || DEFAULT_SETTINGS.referenceLabel;
+					await this.plugin.saveSettings();
+					this.plugin.updateViews();
+				} )
+			);
+
+		// numbering
+		new Setting( containerEl )
+			.setName( 'Numbering' )
+			.setDesc( 'Number figures through the whole note, or within each section, e.g. Figure 2.3.' )
+			.addDropdown( ( dropdown ) => dropdown
+				.addOption( NumberingMode.Flat, 'Sequential' )
+				.addOption( NumberingMode.Section, 'By section' )
+				.setValue( this.plugin.settings.numbering )
+				.onChange( async ( value ) => {
+					this.plugin.settings.numbering = value as NumberingMode;
+					await this.plugin.saveSettings();
+					this.plugin.updateViews();
+				} )
+			);
+
+		new Setting( containerEl )
+			.setName( 'Number style' )
+			.setDesc( 'How figure numbers are written in labels and references.' )
+			.addDropdown( ( dropdown ) => dropdown
+				.addOption( NumberStyle.Arabic, '1, 2, 3' )
+				.addOption( NumberStyle.UpperRoman, 'I, II, III' )
+				.addOption( NumberStyle.LowerRoman, 'i, ii, iii' )
+				.addOption( NumberStyle.UpperAlpha, 'A, B, C' )
+				.addOption( NumberStyle.LowerAlpha, 'a, b, c' )
+				.setValue( this.plugin.settings.numberStyle )
+				.onChange( async ( value ) => {
+					this.plugin.settings.numberStyle = value as NumberStyle;
+					await this.plugin.saveSettings();
+					this.plugin.updateViews();
+				} )
+			);
+
+		const number_start = new Setting( containerEl )
+			.setName( 'Start number' )
+			.setDesc( 'Number of the first figure.' );
+
+		number_start.addText( ( text ) => text
+			.setPlaceholder( '1' )
+			.setValue( this.plugin.settings.numberStart.toString() )
+			.onChange( async ( value ) => {
+				const start = Number( value.trim() || 1 );
+				if ( ! Number.isInteger( start ) || start < 0 ) {
+					number_start.controlEl.addClass( 'setting-error' );
+					return;
+				}
+
+				number_start.controlEl.removeClass( 'setting-error' );
+				this.plugin.settings.numberStart = start;
+				await this.plugin.saveSettings();
+				this.plugin.updateViews();
+			} )
+		);
+
+		new Setting( containerEl )
+			.setName( 'Section heading level' )
+			.setDesc( 'Headings of this level or higher start a new section when numbering by section.' )
+			.addDropdown( ( dropdown ) => {
+				for ( let level = 1; level <= 6; level++ ) {
+					dropdown.addOption( level.toString(), `H${level}` );
+				}
+
+				dropdown
+					.setValue( this.plugin.settings.sectionLevel.toString() )
+					.onChange( async ( value ) => {
+						this.plugin.settings.sectionLevel = parseInt( value );
+						await this.plugin.saveSettings();
+						this.plugin.updateViews();
+					} );
+			} );
+
+		new Setting( containerEl )
+			.setName( 'Group images in a paragraph' )
+			.setDesc(
+				'Number consecutive images of one paragraph as a single figure, labeling each image (a), (b), ... ' +
+				'Images can always be grouped with the group attribute, e.g. {group=comparison}.'
+			)
+			.addToggle( ( toggle ) => toggle
+				.setValue( this.plugin.settings.subfigures )
+				.onChange( async ( value ) => {
+					this.plugin.settings.subfigures = value;
+					await this.plugin.saveSettings();
+					this.plugin.updateViews();
+				} )
+			);
+
+		// figure kinds
+		new Setting( containerEl )
+			.setName( 'Figure kinds' )
+			.setDesc(
+				'Categories of figures, each with its own label and counter. ' +
+				'Select a kind by starting the alt text with its tag, e.g. #diagram.'
+			)
+			.addButton( ( button ) => button
+				.setButtonText( 'Add kind' )
+				.onClick( () => {
+					// saved once named
+					this.plugin.settings.kinds = [
+						...this.plugin.settings.kinds,
+						{ name: '', label: '', reference: '' }
+					];
+					this.display();
+				} )
+			);
+
+		this.plugin.settings.kinds.forEach( ( kind, index ) => {
+			const kind_setting = new Setting( containerEl )
+				.setClass( 'image-caption-kind-setting' );
+
+			kind_setting
+				.addText( ( text ) => text
+					.setPlaceholder( 'Tag' )
+					.setValue( kind.name )
+					.onChange( async ( value ) => {
+						value = value.trim();
+						if ( ! KIND_NAME_PATTERN.test( value ) ) {
+							kind_setting.controlEl.addClass( 'setting-error' );
+							return;
+						}
+
+						kind_setting.controlEl.removeClass( 'setting-error' );
+						kind.name = value;
+						await this.plugin.saveSettings();
+						this.plugin.updateViews();
+					} )
+				)
+				.addText( ( text ) => text
+					.setPlaceholder( 'Label' )
+					.setValue( kind.label )
+					.onChange( async ( value ) => {
+						kind.label = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.updateViews();
+					} )
+				)
+				.addText( ( text ) => text
+					.setPlaceholder( 'Reference label' )
+					.setValue( kind.reference )
+					.onChange( async ( value ) => {
+						kind.reference = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.updateViews();
+					} )
+				)
+				.addExtraButton( ( button ) => button
+					.setIcon( 'trash' )
+					.setTooltip( 'Remove kind' )
+					.onClick( async () => {
+						this.plugin.settings.kinds.splice( index, 1 );
+						await this.plugin.saveSettings();
+						this.plugin.updateViews();
+						this.display();
+					} )
+				);
+		} );
+
 		// css
 		new Setting( containerEl )
 			.setName( 'CSS' )
@@ -185,33 +798,54 @@ class ImageCaptionSettingTab extends PluginSettingTab {
 			.setPlaceholder( 'Delimeter' )
 			.setValue( this.plugin.settings.delimeter.join( ', ' ) )
 			.onChange( async ( value ) => {
-				let delimeters = value.split( ',' ).map( d => d.trim() );
-
-				// validate setting
-				if ( delimeters.length > 2 ) {
-					// too many delimeters
+				const delimeters = parseDelimeter( value );
+				if ( ! delimeters ) {
 					delimeter.controlEl.addClass( 'setting-error' );
 					return;
 				}
 
-				if ( delimeters.length === 2 && delimeters.some( d => !d ) ) {
-					// empty delimeter
-					delimeter.controlEl.addClass( 'setting-error' );
-					return;
-				}
-
-				// delimeters valid
-				if ( delimeters.length === 1 && delimeters[ 0 ] === '' ) {
-					// no delimeter specified
-					delimeters = [];
-				}
-
 				delimeter.controlEl.removeClass( 'setting-error' );
 				this.plugin.settings.delimeter = delimeters;
 				await this.plugin.saveSettings();
+				this.plugin.updateViews();
 			} )
 		);
 
+		// caption template
+		new Setting( containerEl )
+			.setName( 'Caption template' )
+			.setDesc(
+				'Wrap or generate captions. Variables are {caption}, {filename}, {basename}, {note}, {index}, and {date}. ' +
+				'Templates without {caption} only caption images without one. ' +
+				'Override per note with the image-caption-template frontmatter key.'
+			)
+			.addText( ( text ) => text
+				.setPlaceholder( '{caption}' )
+				.setValue( this.plugin.settings.captionTemplate )
+				.onChange( async ( value ) => {
+					this.plugin.settings.captionTemplate = value;
+					await this.plugin.saveSettings();
+					this.plugin.updateViews();
+				} )
+			);
+
+		// caption position
+		new Setting( containerEl )
+			.setName( 'Caption position' )
+			.setDesc( 'Where captions are placed relative to the image. Override per image with caption-above, caption-below, caption-left, or caption-right.' )
+			.addDropdown( ( dropdown ) => dropdown
+				.addOption( CaptionPosition.Above, 'Above' )
+				.addOption( CaptionPosition.Below, 'Below' )
+				.addOption( CaptionPosition.Left, 'Left' )
+				.addOption( CaptionPosition.Right, 'Right' )
+				.setValue( this.plugin.settings.captionPosition )
+				.onChange( async ( value ) => {
+					this.plugin.settings.captionPosition = value as CaptionPosition;
+					await this.plugin.saveSettings();
+					this.plugin.updateViews();
+				} )
+			);
+
 		// parse html
 		new Setting( containerEl )
 			.setName( 'Caption as HTML' )
@@ -221,6 +855,53 @@ class ImageCaptionSettingTab extends PluginSettingTab {
 				.onChange( async ( value ) => {
 					this.plugin.settings.htmlCaption = value;
 					await this.plugin.saveSettings();
+					this.plugin.updateViews();
+				} )
+			);
+
+		// parse markdown
+		new Setting( containerEl )
+			.setName( 'Caption as Markdown' )
+			.setDesc(
+				'Render caption text as Markdown. Takes precedence over caption as HTML. ' +
+				'Links in captions are shown in the graph, but not in backlinks.'
+			)
+			.addToggle( ( toggle ) => toggle
+				.setValue( this.plugin.settings.markdownCaption )
+				.onChange( async ( value ) => {
+					this.plugin.settings.markdownCaption = value;
+					await this.plugin.saveSettings();
+					this.plugin.updateViews();
+				} )
+			);
+
+		// source preview
+		new Setting( containerEl )
+			.setName( 'Preview in Source mode' )
+			.setDesc( 'Show the figure number and parsed caption after each image in Source mode.' )
+			.addToggle( ( toggle ) => toggle
+				.setValue( this.plugin.settings.sourcePreview )
+				.onChange( async ( value ) => {
+					this.plugin.settings.sourcePreview = value;
+					await this.plugin.saveSettings();
+					this.plugin.updateViews();
+				} )
+			);
+
+		// metadata captions
+		new Setting( containerEl )
+			.setName( 'Captions from image metadata' )
+			.setDesc(
+				'Caption internal images without a caption using the description embedded in the image, ' +
+				'from PNG text chunks, JPEG EXIF, or XMP.'
+			)
+			.addToggle( ( toggle ) => toggle
+				.setValue( this.plugin.settings.metadataCaptions )
+				.onChange( async ( value ) => {
+					this.plugin.settings.metadataCaptions = value;
+					this.plugin.metadata_captions.clear();
+					await this.plugin.saveSettings();
+					this.plugin.updateViews();
 				} )
 			);
 
@@ -0,0 +1,234 @@
+import {
+	Notice,
+	TFile,
+	normalizePath
+} from 'obsidian';
+
+import ImageCaptionPlugin from './main';
+import { parseSourceFigures } from './reader_observer';
+import {
+	EmbedType,
+	IMAGE_EXTENSIONS,
+	ParsedCaption,
+	SourceEmbed,
+	frontmatterCaption,
+	parseCaptionText,
+	parseFrontmatterCaptions,
+	parseSourceEmbeds
+} from './common';
+
+
+// *****************
+// *** constants ***
+// *****************
+
+/**
+ * Attributes regenerated from the parsed caption,
+ * or only meaningful to this plugin, so not copied to the exported attributes.
+ */
+const EXPORT_SKIPPED_ATTRIBUTES = [
+	'width', 'height', 'max-width', 'max-height', 'caption-position', 'align'
+];
+
+
+// *****************
+// *** functions ***
+// *****************
+
+/**
+ * Rewrites the image embeds of a note as Pandoc figures,
+ * i.e. `![caption](path){#id .class width=...}`.
+ * Images without a caption of their own use their frontmatter caption.
+ * Other embeds, e.g. of notes or PDFs, are kept as they are.
+ *
+ * @param {string} text - Markdown source of the note.
+ * @param {string[]} delimeter - Delimeter(s) used to indicate caption text.
+ * @param {string[]} kinds - Names of the defined figure kinds.
+ * @param {(embed: SourceEmbed) => string | null} resolve - Resolves the path of an embed,
+ *     or null if the embed is not an image.
+ * @param {(embed: SourceEmbed, caption?: string) => string | undefined} [template] -
+ *     Applies the caption template to the caption of an embed.
+ * @returns {string} Markdown source with Pandoc figures.
+ */
+export function toPandocMarkdown(
+	text: string,
+	delimeter: string[],
+	kinds: string[],
+	resolve: ( embed: SourceEmbed ) => string | null,
+	template: ( embed: SourceEmbed, caption?: string ) => string | undefined = ( _embed, caption ) => caption
+): string {
+	const embeds = parseSourceEmbeds( text );
+	const fm_captions = parseFrontmatterCaptions( text );
+
+	// replace from the end so earlier offsets remain valid
+	for ( const embed of embeds.reverse() ) {
+		const path = resolve( embed );
+		if ( path === null ) {
+			continue;
+		}
+
+		let parsed = parseCaptionText( embed.alt_text, delimeter, kinds );
+		if ( ! parsed?.text ) {
+			const caption = frontmatterCaption( fm_captions, embed.src, parsed?.id );
+			if ( caption ) {
+				parsed = { classes: [], attributes: {}, ...parsed, text: caption };
+			}
+		}
+
+		const caption = template( embed, parsed?.text );
+		if ( caption !== parsed?.text ) {
+			parsed = { classes: [], attributes: {}, ...parsed, text: caption };
+		}
+
+		const has_figure_info = (
+			parsed?.text || parsed?.size || parsed?.id || parsed?.classes?.length
+		);
+
+		if ( embed.embed_type === EmbedType.External && ! has_figure_info ) {
+			// already valid Pandoc
+			continue;
+		}
+
+		const figure = pandocFigure( parsed, path );
+		text = text.slice( 0, embed.from ) + figure + text.slice( embed.to );
+	}
+
+	return text;
+}
+
+
+/**
+ * Creates the Pandoc figure for an image.
+ *
+ * @param {ParsedCaption | null} parsed - Parsed caption of the image.
+ * @param {string} path - Path of the image.
+ * @returns {string} Pandoc figure.
+ */
+function pandocFigure( parsed: ParsedCaption | null, path: string ): string {
+	// brackets would end the caption early
+	const caption = ( parsed?.text ?? '' ).trim().replace( /([[\]])/g, '\\$1' );
+	if ( /[\s()<>]/.test( path ) ) {
+		path = `<${path}>`;
+	}
+
+	const attrs: string[] = [];
+	if ( parsed?.id ) {
+		attrs.push( `#${parsed.id}` );
+	}
+
+	for ( const cls of parsed?.classes ?? [] ) {
+		attrs.push( `.${cls}` );
+	}
+
+	const size = parsed?.size;
+	if ( size?.width ) {
+		attrs.push( `width=${size.width.value}${size.width.unit || 'px'}` );
+	}
+
+	if ( size?.height ) {
+		attrs.push( `height=${size.height.value}${size.height.unit || 'px'}` );
+	}
+
+	for ( const [ key, value ] of Object.entries( parsed?.attributes ?? {} ) ) {
+		if ( EXPORT_SKIPPED_ATTRIBUTES.contains( key ) ) {
+			continue;
+		}
+
+		attrs.push( /[\s"]/.test( value ) ? `${key}="${value.replace( /"/g, '\\"' )}"` : `${key}=${value}` );
+	}
+
+	const attr_block = attrs.length ? `{${attrs.join( ' ' )}}` : '';
+	return `![${caption}](${path})${attr_block}`;
+}
+
+
+/**
+ * @param {string} from_dir - Vault path of the directory to link from.
+ * @param {string} to_path - Vault path of the file to link to.
+ * @returns {string} Path of the file relative to the directory.
+ */
+export function relativePath( from_dir: string, to_path: string ): string {
+	const from_parts = from_dir.split( '/' ).filter( pt => pt && pt !== '.' );
+	const to_parts = to_path.split( '/' ).filter( pt => pt );
+
+	let common = 0;
+	while (
+		common < from_parts.length
+		&& common < to_parts.length - 1
+		&& from_parts[ common ] === to_parts[ common ]
+	) {
+		common += 1;
+	}
+
+	const up = from_parts.slice( common ).map( () => '..' );
+	return [ ...up, ...to_parts.slice( common ) ].join( '/' );
+}
+
+
+/**
+ * Writes a copy of a note with its images as Pandoc figures,
+ * next to the note as `<name>.pandoc.md`.
+ *
+ * @param {ImageCaptionPlugin} plugin
+ * @param {TFile} file - Note to export.
+ * @returns {Promise<TFile>} Exported note.
+ */
+export async function exportPandoc(
+	plugin: ImageCaptionPlugin,
+	file: TFile
+): Promise<TFile> {
+	const { vault, metadataCache } = plugin.app;
+	const dir = file.parent ? file.parent.path : '';
+
+	const resolve = ( embed: SourceEmbed ): string | null => {
+		if ( embed.embed_type === EmbedType.External ) {
+			return embed.src;
+		}
+
+		const link_path = embed.src.split( '#' )[ 0 ];
+		const target = metadataCache.getFirstLinkpathDest( link_path, file.path );
+		const extension = target ? target.extension : link_path.split( '.' ).pop();
+		if ( ! IMAGE_EXTENSIONS.contains( ( extension ?? '' ).toLowerCase() ) ) {
+			// note, heading, block or other file embed
+			return null;
+		}
+
+		return target ? relativePath( dir, target.path ) : link_path;
+	};
+
+	const text = await vault.read( file );
+
+	// figure numbers of the embeds, for the {index} template variable
+	const { embeds, fig_nums, subfigures } = parseSourceFigures( plugin, text, file.path );
+	const fig_num_at = new Map( embeds.map(
+		( embed, index ) => [ embed.from, fig_nums[ index ] + subfigures[ index ] ]
+	) );
+	const template = ( embed: SourceEmbed, caption?: string ): string | undefined => plugin.templateCaption(
+		caption,
+		embed.src,
+		file.path,
+		fig_num_at.get( embed.from ) ?? ''
+	);
+
+	const exported = toPandocMarkdown(
+		text,
+		plugin.noteSettings( file.path ).delimeter,
+		plugin.kindNames(),
+		resolve,
+		template
+	);
+
+	const export_path = normalizePath( `${dir}/${file.basename}.pandoc.md` );
+	const existing = vault.getAbstractFileByPath( export_path );
+	let export_file;
+	if ( existing instanceof TFile ) {
+		await vault.modify( existing, exported );
+		export_file = existing;
+	}
+	else {
+		export_file = await vault.create( export_path, exported );
+	}
+
+	new Notice( `Exported ${export_path}` );
+	return export_file;
+}
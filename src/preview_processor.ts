@@ -23,8 +23,14 @@ import {
 
 import { syntaxTree } from '@codemirror/language';
 
+import { MarkdownRenderChild, editorViewField } from 'obsidian';
+
 import ImageCaptionPlugin from './main';
 import {
+    CaptionFormat,
+    TemplateVariables,
+    applyCaptionTemplate,
+    setCaptionContent,
     parseCaptionText,
     addCaption,
     setSize,
@@ -60,32 +66,64 @@ const NODE_TYPE_PROP_ID = 11;
 class ImageCaptionWidget extends WidgetType {
     caption: string;
     index: number;
+    format: CaptionFormat;
+    source_path: string;
+    template: string;
+    variables: TemplateVariables;
+    component: MarkdownRenderChild;
 
     /**
      * @param {string} caption - Caption to display.
+     * @param {number} index - Index of the image.
+     * @param {CaptionFormat} format - How the caption text is inserted.
+     * @param {string} source_path - Path of the note containing the image.
+     * @param {string} template - Caption template, empty for none.
+     * @param {TemplateVariables} variables - Values of the template variables.
      */
-    constructor(caption: string, index: number) {
+    constructor(
+        caption: string,
+        index: number,
+        format: CaptionFormat,
+        source_path: string,
+        template: string,
+        variables: TemplateVariables
+    ) {
         super();
         this.caption = caption;
         this.index = index;
+        this.format = format;
+        this.source_path = source_path;
+        this.template = template;
+        this.variables = variables;
     }
 
     eq(other: ImageCaptionWidget): boolean {
         return (
             (other.caption === this.caption)
             && (other.index === this.index)
+            && (other.format === this.format)
+            && (other.template === this.template)
+            && (JSON.stringify(other.variables) === JSON.stringify(this.variables))
         );
     }
 
     toDOM(view: EditorView): HTMLElement {
         const cap = document.createElement('figcaption')
-        cap.innerHTML = this.caption;
+        this.component = new MarkdownRenderChild(cap);
+        this.component.load();
+
+        const text = applyCaptionTemplate(this.template, this.caption, this.variables) ?? '';
+        setCaptionContent(cap, text, this.format, this.source_path, this.component);
         cap.dataset.imageCaptionIndex = this.index.toString();
         cap.addClass(ImageCaptionPlugin.caption_class);
         
         return cap;
     }
 
+    destroy(dom: HTMLElement) {
+        this.component?.unload();
+    }
+
     ignoreEvent(): boolean {
         return false;
     }
@@ -147,8 +185,16 @@ export function previewImageCaptionParserFactory(plugin: ImageCaptionPlugin) {
 
                 // caption
                 const pos = img.nodes.at(-1).to;
+                const source_path = state.field(editorViewField, false)?.file?.path ?? '';
                 const caption_marker = Decoration.widget({
-                    widget: new ImageCaptionWidget(img.caption, i)
+                    widget: new ImageCaptionWidget(
+                        img.caption,
+                        i,
+                        plugin.captionFormat(source_path),
+                        source_path,
+                        plugin.captionTemplate(source_path),
+                        plugin.templateVariables(img.src, source_path, (i + 1).toString())
+                    )
                 });
 
                 deco_builder.add(pos, pos, caption_marker);
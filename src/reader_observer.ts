@@ -8,20 +8,330 @@ import {
     parseCaptionText,
     addCaption,
     setSize,
-    updateFigureIndices
+    setAlignment,
+    setFigureAttributes,
+    updateFigureIndices,
+    parseFigureLabels,
+    parseSourceEmbeds,
+    isImageSrc,
+    setCaptionLabel,
+    continuesFigure,
+    figureGroup,
+    groupCaption,
+    wrapFigureGroup,
+    subfigureLetters,
+    formatReference,
+    templateGenerates,
+    frontmatterCaption,
+    frontmatterCaptions,
+    parseFrontmatterCaptions,
+    ParsedCaption,
+    CaptionPosition,
+    FigureInfo,
+    SourceEmbed,
+    FigureTarget,
+    REFERENCE_PATTERN
 } from './common';
 
+/**
+ * Matches rendered internal and external embeds in the reading view.
+ */
+const EMBED_SELECTOR = 'span.internal-embed, img:not(span.internal-embed img)';
+
+
+/**
+ * Embeds of a note with their parsed captions and figure numbers.
+ * + figures: Numbering information of each embed, including subfigure grouping.
+ * + subfigures: Subfigure letter of each embed, empty if it is not a subfigure.
+ */
+export interface SourceFigures {
+	embeds: SourceEmbed[];
+	captions: ( ParsedCaption | null )[];
+	figures: FigureInfo[];
+	fig_nums: string[];
+	subfigures: string[];
+}
+
+
+/**
+ * An image of the reading view, located among the figures of its note.
+ * + elements: Rendered image embeds of the section containing the image.
+ * + first: Index of the first image of the section among the figures of the note.
+ */
+export interface ReadingFigure {
+	source: SourceFigures;
+	index: number;
+	elements: Element[];
+	first: number;
+}
+
+
+/**
+ * Figures of the note parsed last, reused by the following sections of the note.
+ */
+let parsed_source: {
+	source_path: string;
+	text: string;
+	settings: string;
+	figures: SourceFigures;
+} | null = null;
+
+
+/**
+ * Parses the figures of a note from its source.
+ * 
+ * @param {ImageCaptionPlugin} plugin
+ * @param {string} text - Markdown source of the note.
+ * @param {string} source_path - Path of the note, used to find its settings.
+ * @returns {SourceFigures}
+ */
+export function parseSourceFigures(
+	plugin: ImageCaptionPlugin,
+	text: string,
+	source_path: string
+): SourceFigures {
+	const embeds = parseSourceEmbeds( text, plugin.settings.sectionLevel );
+	const fm_captions = parseFrontmatterCaptions( text );
+	const settings = plugin.noteSettings( source_path );
+	const captions = embeds.map( embed => {
+		const parsed = parseCaptionText( embed.alt_text, settings.delimeter, plugin.kindNames() );
+		return withFrontmatterCaption( parsed, fm_captions, embed.src );
+	} );
+
+	const figures = embeds.map( ( embed, index ) => ( {
+		section: embed.section,
+		kind: captions[ index ]?.kind,
+		grouped: index > 0 && continuesFigure(
+			captions[ index - 1 ]?.attributes?.group,
+			captions[ index ]?.attributes?.group,
+			text.slice( embeds[ index - 1 ].to, embed.from ),
+			settings.subfigures
+		)
+	} ) );
+
+	const fig_nums = plugin.figureNumbers( source_path, figures );
+	return { embeds, captions, figures, fig_nums, subfigures: subfigureLetters( figures ) };
+}
+
+
+/**
+ * Gets the figures of a note, only parsing its source
+ * if it or the settings changed since the last call.
+ * The reading view processes each section and image on its own,
+ * while the figures are the same for all of them.
+ * 
+ * @param {ImageCaptionPlugin} plugin
+ * @param {string} text - Markdown source of the note.
+ * @param {string} source_path - Path of the note, used to find its settings.
+ * @returns {SourceFigures}
+ */
+function cachedSourceFigures(
+	plugin: ImageCaptionPlugin,
+	text: string,
+	source_path: string
+): SourceFigures {
+	const settings = JSON.stringify( plugin.noteSettings( source_path ) );
+	if (
+		parsed_source
+		&& parsed_source.source_path === source_path
+		&& parsed_source.settings === settings
+		&& parsed_source.text === text
+	) {
+		return parsed_source.figures;
+	}
+
+	const figures = parseSourceFigures( plugin, text, source_path );
+	parsed_source = { source_path, text, settings, figures };
+	return figures;
+}
+
+
+/**
+ * Uses an image's frontmatter caption if the embed has no caption of its own.
+ * 
+ * @param {ParsedCaption | null} parsed - Caption parsed from the image's alt text.
+ * @param {Record<string, unknown> | undefined} fm_captions - Frontmatter captions of the note.
+ * @param {string} src - Source of the image.
+ * @returns {ParsedCaption | null} Parsed caption, with the frontmatter caption if used.
+ */
+function withFrontmatterCaption(
+	parsed: ParsedCaption | null,
+	fm_captions: Record<string, unknown> | undefined,
+	src: string
+): ParsedCaption | null {
+	if ( parsed?.text ) {
+		return parsed;
+	}
+
+	const caption = frontmatterCaption( fm_captions, src, parsed?.id );
+	if ( ! caption ) {
+		return parsed;
+	}
+
+	return { classes: [], attributes: {}, ...parsed, text: caption };
+}
+
+
+/**
+ * Locates an image of the reading view among the figures of its note.
+ * Embeds are counted in source order, so numbering matches Live Preview.
+ * 
+ * @param {ImageCaptionPlugin} plugin
+ * @param {HTMLElement} el - Section element being processed.
+ * @param {HTMLElement} target - Rendered embed within the section.
+ * @param {MarkdownPostProcessorContext} ctx
+ * @returns {ReadingFigure | null} Figure of the image,
+ * 		or null if it could not be determined.
+ */
+export function readingFigure(
+	plugin: ImageCaptionPlugin,
+	el: HTMLElement,
+	target: HTMLElement,
+	ctx: MarkdownPostProcessorContext
+): ReadingFigure | null {
+	const info = ctx.getSectionInfo( el );
+	if ( ! info ) {
+		return null;
+	}
+
+	// other embeds may not be loaded yet, so are told apart by their source
+	const elements = Array.from( el.querySelectorAll( EMBED_SELECTOR ) )
+		.filter( ( elm ) => elm.tagName === 'IMG' || isImageSrc( elm.getAttribute( 'src' ) ?? '' ) );
+	const index = elements.indexOf( target );
+	if ( index === -1 ) {
+		return null;
+	}
+
+	const source = cachedSourceFigures( plugin, info.text, ctx.sourcePath );
+	const preceding = source.embeds.filter( embed => embed.line < info.lineStart ).length;
+	if ( preceding + index >= source.embeds.length ) {
+		return null;
+	}
+
+	return { source, index: preceding + index, elements, first: preceding };
+}
+
+
+/**
+ * @param {ReadingFigure | null} figure - Figure of an image.
+ * @returns {string | null} Figure number of the image, including its subfigure letter,
+ * 		or null if the figure is not known.
+ */
+function readingFigureNumber( figure: ReadingFigure | null ): string | null {
+	if ( ! figure ) {
+		return null;
+	}
+
+	return figure.source.fig_nums[ figure.index ] + figure.source.subfigures[ figure.index ];
+}
+
+
+/**
+ * Sets the figure number, kind, and label of a caption.
+ * Subfigures are labeled with their letter.
+ * 
+ * @param {ImageCaptionPlugin} plugin
+ * @param {string} source_path - Path of the note containing the caption.
+ * @param {MarkdownRenderChild} caption - Caption to number.
+ * @param {ReadingFigure | null} figure - Figure of the image, the number is omitted from the label if null.
+ * @param {string} [kind] - Figure kind, if any.
+ */
+function setFigureData(
+	plugin: ImageCaptionPlugin,
+	source_path: string,
+	caption: MarkdownRenderChild,
+	figure: ReadingFigure | null,
+	kind?: string
+) {
+	if ( kind ) {
+		caption.containerEl.setAttribute( 'data-image-caption-kind', kind );
+	}
+
+	const fig_num = readingFigureNumber( figure );
+	if ( fig_num !== null ) {
+		caption.containerEl.setAttribute( 'data-image-caption-fignum', fig_num );
+	}
+
+	const letter = figure ? figure.source.subfigures[ figure.index ] : '';
+	setCaptionLabel(
+		caption.containerEl,
+		letter
+			? plugin.subfigureLabel( letter )
+			: plugin.captionLabel( source_path, fig_num ?? '', kind )
+	);
+}
+
+
+/**
+ * Adds the caption shared by the subfigures of a figure,
+ * labeled with the figure number, if the image is the last subfigure.
+ * The subfigures are wrapped in one container holding the caption,
+ * unless they are in different sections, then the caption follows the last subfigure.
+ * 
+ * @param {ImageCaptionPlugin} plugin
+ * @param {HTMLElement} target - Container of the image.
+ * @param {ReadingFigure | null} figure - Figure of the image.
+ * @param {CaptionPosition} [position] - Caption position of the image, if overridden.
+ * @param {MarkdownPostProcessorContext} ctx
+ */
+function captionFigureGroup(
+	plugin: ImageCaptionPlugin,
+	target: HTMLElement,
+	figure: ReadingFigure | null,
+	position: CaptionPosition | undefined,
+	ctx: MarkdownPostProcessorContext
+) {
+	if ( ! figure || ! figure.source.subfigures[ figure.index ] ) {
+		return;
+	}
+
+	const { source, index } = figure;
+	const group = figureGroup( source.figures, index );
+	if ( group.at( -1 ) !== index ) {
+		return;
+	}
+
+	let container = null;
+	const first = figure.elements[ group[ 0 ] - figure.first ];
+	if ( first ) {
+		// external images may have been wrapped since
+		const first_container = first.closest( `.${ImageCaptionPlugin.external_container_class}` ) ?? first;
+		container = wrapFigureGroup( first_container, target );
+	}
+
+	const caption = addCaption(
+		container ?? target,
+		groupCaption( group.map( i => source.captions[ i ]?.attributes ) ) ?? '',
+		plugin.captionFormat( ctx.sourcePath ),
+		ctx.sourcePath,
+		position ?? plugin.settings.captionPosition
+	);
+
+	const fig_num = source.fig_nums[ index ];
+	const kind = source.captions[ group[ 0 ] ]?.kind;
+	caption.containerEl.addClass( 'image-caption-group' );
+	caption.containerEl.setAttribute( 'data-image-caption-fignum', fig_num );
+	if ( kind ) {
+		caption.containerEl.setAttribute( 'data-image-caption-kind', kind );
+	}
+
+	setCaptionLabel( caption.containerEl, plugin.captionLabel( ctx.sourcePath, fig_num, kind ) );
+	ctx.addChild( caption );
+}
+
 /**
  * Registers a Mutation Observer on an image to add a caption.
  * The observer is unregistered after the caption has been added.
  * Meant to be used for internal embeds.
  *  
  * @param plugin {ImageCaptionPlugin}
+ * @param el {HTMLElement} Section element containing the image.
  * @param ctx {MarkdownPostProcessorContext}
  * @returns {MutationObserver}
  */
 export function internalCaptionObserver(
 	plugin: ImageCaptionPlugin,
+	el: HTMLElement,
 	ctx: MarkdownPostProcessorContext
 ): MutationObserver {
 	return new MutationObserver( ( mutations: MutationRecord[], observer: MutationObserver ) => {
@@ -31,10 +341,11 @@ export function internalCaptionObserver(
 				continue;
 			}
 
-			let caption_text = target.getAttribute( 'alt' );
-			if ( caption_text === target.getAttribute( 'src' ) ) {
-				// default caption, skip
-				continue;
+			const src = target.getAttribute( 'src' );
+			let alt_text = target.getAttribute( 'alt' );
+			if ( alt_text === src ) {
+				// default alt text, not a caption
+				alt_text = '';
 			}
 
 			if ( target.querySelector( ImageCaptionPlugin.caption_selector ) ) {
@@ -42,28 +353,28 @@ export function internalCaptionObserver(
 				continue;
 			}
 
-            if ( ! caption_text ) {
-                continue;
-            }
-			
-            const parsed = parseCaptionText( caption_text, plugin.settings.delimeter );
-			const size = parsed.size;
-			caption_text = parsed.text;
-
-			if ( caption_text ) {
-				const caption = addCaption(
-					target,
-					caption_text,
-					plugin.settings.htmlCaption
-				);
-				ctx.addChild( caption );
+            const parsed = withFrontmatterCaption(
+                parseCaptionText( alt_text, plugin.noteSettings( ctx.sourcePath ).delimeter, plugin.kindNames() ),
+                frontmatterCaptions( ctx.frontmatter ),
+                src
+            ) ?? { classes: [], attributes: {} };  // uncaptioned images may be captioned by the template
 
-                target.addClass( 'with_image_caption' );
+			if ( parsed.text || ! plugin.settings.metadataCaptions ) {
+				captionInternalEmbed( plugin, el, target, parsed, ctx );
+				continue;
 			}
 
-			if ( size ) {
-				setSize( target, size );
-			}
+			// fall back to the description embedded in the image
+			plugin.metadata_captions.load( src, ctx.sourcePath ).then( ( description ) => {
+				if ( target.querySelector( ImageCaptionPlugin.caption_selector ) ) {
+					return;
+				}
+
+				captionInternalEmbed( plugin, el, target, { ...parsed, text: description }, ctx );
+				updateFigureIndices();
+			} ).catch( ( err ) => {
+				console.error( `could not caption ${src} in ${ctx.sourcePath}`, err );
+			} );
 		}  // end for..of
 
 		updateFigureIndices();
@@ -72,6 +383,62 @@ export function internalCaptionObserver(
 }
 
 
+/**
+ * Adds the caption, size, and layout to an internal embed.
+ * 
+ * @param {ImageCaptionPlugin} plugin
+ * @param {HTMLElement} el - Section element containing the image.
+ * @param {HTMLElement} target - Embed container of the image.
+ * @param {ParsedCaption} parsed - Parsed caption of the image.
+ * @param {MarkdownPostProcessorContext} ctx
+ */
+function captionInternalEmbed(
+	plugin: ImageCaptionPlugin,
+	el: HTMLElement,
+	target: HTMLElement,
+	parsed: ParsedCaption,
+	ctx: MarkdownPostProcessorContext
+) {
+	const size = parsed.size;
+	const caption_text = parsed.text;
+	const template = plugin.captionTemplate( ctx.sourcePath );
+
+	if ( parsed.label ) {
+		target.setAttribute( 'data-image-caption-label', parsed.label );
+	}
+
+	const figure = readingFigure( plugin, el, target, ctx );
+	const letter = figure ? figure.source.subfigures[ figure.index ] : '';
+	if ( caption_text || templateGenerates( template ) || letter ) {
+		const caption = addCaption(
+			target,
+			caption_text ?? '',
+			plugin.captionFormat( ctx.sourcePath ),
+			ctx.sourcePath,
+			parsed.position ?? plugin.settings.captionPosition,
+			template,
+			plugin.templateVariables( target.getAttribute( 'src' ), ctx.sourcePath, readingFigureNumber( figure ) ?? '' )
+		);
+		setFigureData( plugin, ctx.sourcePath, caption, figure, parsed.kind );
+		ctx.addChild( caption );
+
+		target.addClass( 'with_image_caption' );
+	}
+
+	captionFigureGroup( plugin, target, figure, parsed.position, ctx );
+
+	if ( size ) {
+		setSize( target, size );
+	}
+
+	if ( parsed.align ) {
+		setAlignment( target, parsed.align );
+	}
+
+	setFigureAttributes( target, parsed.id, parsed.classes );
+}
+
+
 /**
  * Registers a Mutation Observer on an image to add a caption.
  * The observer is unregistered after the caption has been added.
@@ -86,7 +453,7 @@ export function externalCaptionObserver(
 	return new MutationObserver( ( mutations, observer ) => {
 		let update = false;
 		for ( const mutation of mutations ) {
-			const captions = [ ...mutation.addedNodes ].filter(
+			const captions = Array.from( mutation.addedNodes ).filter(
 				( elm: HTMLElement ) => {
 					return elm.matches(ImageCaptionPlugin.caption_selector);
 				}
@@ -121,12 +488,11 @@ export function processInternalImageCaption(
 		el: HTMLElement,
 		ctx: MarkdownPostProcessorContext
 	): void {
-		console.log(el)
 		el.querySelectorAll( 'span.internal-embed.image-embed' ).forEach(
 			( container: HTMLElement ) => {
 				// must listen for class changes because images
 				// may be loaded after this run
-				const observer = internalCaptionObserver( plugin, ctx );
+				const observer = internalCaptionObserver( plugin, el, ctx );
 				observer.observe(
 					container,
 					{ attributes: true, attributeFilter: [ 'class' ] }
@@ -154,7 +520,7 @@ export function processExternalImageCaption(
 		el: HTMLElement,
 		ctx: MarkdownPostProcessorContext
 	): void {
-		const container_css_class = 'obsidian-image-caption-external-embed';
+		const container_css_class = ImageCaptionPlugin.external_container_class;
 
 		const elms = el.querySelectorAll( 'img' );
 		elms.forEach(
@@ -170,27 +536,38 @@ export function processExternalImageCaption(
 					return;
 				}
 
+				// figure must be found before the image is wrapped
+				const figure = readingFigure( plugin, el, img, ctx );
+				const letter = figure ? figure.source.subfigures[ figure.index ] : '';
+
 				// @todo: External images no longer have alt text.
 				// 		Need to find another way to add caption.
-				let caption_text = img.getAttribute( 'alt' );
-                if ( ! caption_text ) {
-                    return;
-                }
-
-				const parsed = parseCaptionText(
-					caption_text,
-					plugin.settings.delimeter
-				);
+				const src = img.getAttribute( 'src' );
+				const parsed = withFrontmatterCaption(
+					parseCaptionText(
+						img.getAttribute( 'alt' ),
+						plugin.noteSettings( ctx.sourcePath ).delimeter,
+						plugin.kindNames()
+					),
+					frontmatterCaptions( ctx.frontmatter ),
+					src
+				) ?? { classes: [], attributes: {} };
 				
 				const size = parsed.size;
-				caption_text = parsed.text;
-				if ( !( caption_text || size ) ) {
+				const caption_text = parsed.text;
+				const template = plugin.captionTemplate( ctx.sourcePath );
+				const generated = ! caption_text && templateGenerates( template );
+				const has_attributes = ( parsed.id || parsed.classes?.length );
+				if ( !( caption_text || generated || letter || size || parsed.label || parsed.align || has_attributes ) ) {
 					return;
 				}
 
 				// create container
 				const container = document.createElement( 'span' );
 				container.addClass( container_css_class );
+				if ( parsed.label ) {
+					container.setAttribute( 'data-image-caption-label', parsed.label );
+				}
 
 				// observe container for caption to be added
 				const observer = externalCaptionObserver( plugin );
@@ -206,22 +583,132 @@ export function processExternalImageCaption(
 				container.appendChild( img );
 
 				// add caption
-				if ( caption_text ) {
+				if ( caption_text || generated || letter ) {
 					const caption = addCaption(
 						container,
-						caption_text,
-						plugin.settings.htmlCaption
+						caption_text ?? '',
+						plugin.captionFormat( ctx.sourcePath ),
+						ctx.sourcePath,
+						parsed.position ?? plugin.settings.captionPosition,
+						template,
+						plugin.templateVariables( src, ctx.sourcePath, readingFigureNumber( figure ) ?? '' )
 					);
+					setFigureData( plugin, ctx.sourcePath, caption, figure, parsed.kind );
 
 					ctx.addChild( new MarkdownRenderChild( container ) );
 					ctx.addChild( caption );
 				}
 
+				captionFigureGroup( plugin, container, figure, parsed.position, ctx );
+
 				// set size
 				if ( size ) {
 					setSize( container, size );
 				}
+
+				if ( parsed.align ) {
+					setAlignment( container, parsed.align );
+				}
+
+				setFigureAttributes( container, parsed.id, parsed.classes );
 			}
 		);
 	};
 }
+
+
+/**
+ * Replaces figure references with links to the referenced figure.
+ * 
+ * @param {ImageCaptionPlugin} plugin
+ * @returns {(HTMLElement, MarkdownPostProcessorContext) => void}
+ * 		Function that replaces references to labeled figures.
+ */
+export function processFigureReferences(
+	plugin: ImageCaptionPlugin
+): ( el: HTMLElement, ctx: MarkdownPostProcessorContext ) => void {
+
+	return function (
+		el: HTMLElement,
+		ctx: MarkdownPostProcessorContext
+	): void {
+		const info = ctx.getSectionInfo( el );
+		if ( ! info ) {
+			return;
+		}
+
+		const { captions, fig_nums, subfigures } = cachedSourceFigures( plugin, info.text, ctx.sourcePath );
+		const labels = parseFigureLabels(
+			captions,
+			fig_nums.map( ( fig_num, index ) => fig_num + subfigures[ index ] )
+		);
+		if ( ! labels.size ) {
+			return;
+		}
+
+		// collect text nodes first, replacing while walking breaks the walker
+		const walker = document.createTreeWalker( el, NodeFilter.SHOW_TEXT );
+		const text_nodes: Text[] = [];
+		while ( walker.nextNode() ) {
+			const node = walker.currentNode as Text;
+			if ( node.parentElement.closest( 'code, pre, a' ) ) {
+				continue;
+			}
+
+			text_nodes.push( node );
+		}
+
+		for ( const node of text_nodes ) {
+			const text = node.textContent;
+			const frag = document.createDocumentFragment();
+			let last = 0;
+			for ( const match of text.matchAll( REFERENCE_PATTERN ) ) {
+				const label = match[ 1 ];
+				const target = labels.get( label );
+				if ( target === undefined ) {
+					continue;
+				}
+
+				frag.append( text.slice( last, match.index ) );
+				frag.append( createReferenceLink( plugin, label, target ) );
+				last = match.index + match[ 0 ].length;
+			}
+
+			if ( last === 0 ) {
+				// no references
+				continue;
+			}
+
+			frag.append( text.slice( last ) );
+			node.replaceWith( frag );
+		}
+	};
+}
+
+
+/**
+ * Creates a link to a figure in the reading view.
+ * 
+ * @param {ImageCaptionPlugin} plugin
+ * @param {string} label - Label of the figure.
+ * @param {FigureTarget} target - Number and kind of the figure.
+ * @returns {HTMLElement} Reference link.
+ */
+function createReferenceLink(
+	plugin: ImageCaptionPlugin,
+	label: string,
+	target: FigureTarget
+): HTMLElement {
+	const link = document.createElement( 'a' );
+	link.addClass( 'image-caption-reference' );
+	link.setAttribute( 'data-image-caption-ref', label );
+	link.innerText = formatReference( plugin.referenceLabel( target.kind ), target.fig_num );
+	link.addEventListener( 'click', ( evt: MouseEvent ) => {
+		evt.preventDefault();
+		const view = link.closest( '.markdown-reading-view' );
+		const figure = view?.querySelector( `[data-image-caption-label="${CSS.escape( label )}"]` );
+		figure?.scrollIntoView( { behavior: 'smooth', block: 'center' } );
+	} );
+
+	return link;
+}
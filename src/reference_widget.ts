@@ -0,0 +1,47 @@
+import {
+	EditorView,
+	WidgetType
+} from '@codemirror/view';
+
+
+export class FigureReferenceWidget extends WidgetType {
+	label: string;
+	text: string;
+	target: number;
+
+	/**
+	 * @param {string} label - Label of the referenced figure.
+	 * @param {string} text - Text to display.
+	 * @param {number} target - Document position of the referenced figure.
+	 */
+	constructor(label: string, text: string, target: number) {
+		super();
+
+		this.label = label;
+		this.text = text;
+		this.target = target;
+	}
+
+	toDOM(view: EditorView): HTMLElement {
+		const link = document.createElement('a');
+		link.addClass('image-caption-reference');
+		link.setAttribute('data-image-caption-ref', this.label);
+		link.innerText = this.text;
+		link.addEventListener('click', (evt: MouseEvent) => {
+			evt.preventDefault();
+			view.dispatch({
+				effects: EditorView.scrollIntoView(this.target, { y: 'center' })
+			});
+		});
+
+		return link;
+	}
+
+	eq(other: FigureReferenceWidget): boolean {
+		return (
+			(other.label === this.label)
+			&& (other.text === this.text)
+			&& (other.target === this.target)
+		);
+	}
+}
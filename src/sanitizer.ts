@@ -0,0 +1,118 @@
+// *****************
+// *** constants ***
+// *****************
+
+/**
+ * Tags allowed in caption HTML, with the attributes allowed on each.
+ * A map, so tag names such as `constructor` do not match object properties.
+ */
+const ALLOWED_TAGS = new Map<string, string[]>( [
+	[ 'a', [ 'href', 'title', 'class' ] ],
+	[ 'abbr', [ 'title' ] ],
+	[ 'b', [] ],
+	[ 'br', [] ],
+	[ 'cite', [] ],
+	[ 'code', [ 'class' ] ],
+	[ 'del', [] ],
+	[ 'em', [] ],
+	[ 'i', [] ],
+	[ 'ins', [] ],
+	[ 'kbd', [] ],
+	[ 'mark', [ 'class' ] ],
+	[ 'q', [] ],
+	[ 's', [] ],
+	[ 'small', [] ],
+	[ 'span', [ 'class', 'title' ] ],
+	[ 'strong', [] ],
+	[ 'sub', [] ],
+	[ 'sup', [] ],
+	[ 'u', [] ],
+] );
+
+/**
+ * Tags removed along with their content.
+ * Other disallowed tags are unwrapped, keeping their content.
+ */
+const DROPPED_TAGS = [
+	'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed',
+	'applet', 'link', 'meta', 'base', 'form', 'input', 'button', 'select',
+	'textarea', 'template', 'svg', 'math', 'noscript'
+];
+
+/**
+ * Matches link targets that are safe to follow.
+ * Allows web, mail, and Obsidian links, as well as relative links and anchors.
+ */
+const SAFE_HREF_PATTERN = /^(https?:|mailto:|obsidian:|#|\/|\.|[^:]*$)/i;
+
+
+// *****************
+// *** functions ***
+// *****************
+
+/**
+ * Sanitizes caption HTML using an allowlist of formatting tags and attributes.
+ * Disallowed elements are unwrapped, keeping their text, while
+ * script-like elements are removed entirely.
+ *
+ * @param {string} html - HTML to sanitize.
+ * @returns {DocumentFragment} Sanitized content.
+ */
+export function sanitizeHtml( html: string ): DocumentFragment {
+	// template content is inert, so scripts do not run and resources do not load
+	const template = document.createElement( 'template' );
+	template.innerHTML = html;
+
+	sanitizeChildren( template.content );
+	return template.content;
+}
+
+
+/**
+ * Sanitizes the children of a node in place.
+ *
+ * @param {Node} parent - Node whose children are sanitized.
+ */
+function sanitizeChildren( parent: Node ) {
+	for ( const node of Array.from( parent.childNodes ) ) {
+		if ( node.nodeType === Node.TEXT_NODE ) {
+			continue;
+		}
+
+		if ( node.nodeType !== Node.ELEMENT_NODE ) {
+			// comments, processing instructions, etc.
+			node.remove();
+			continue;
+		}
+
+		const elm = node as Element;
+		const tag = elm.tagName.toLowerCase();
+		if ( DROPPED_TAGS.contains( tag ) ) {
+			elm.remove();
+			continue;
+		}
+
+		sanitizeChildren( elm );
+		const allowed_attrs = ALLOWED_TAGS.get( tag );
+		if ( ! allowed_attrs ) {
+			elm.replaceWith( ...Array.from( elm.childNodes ) );
+			continue;
+		}
+
+		for ( const attr of Array.from( elm.attributes ) ) {
+			const name = attr.name.toLowerCase();
+			const allowed = (
+				allowed_attrs.contains( name )
+				&& ( name !== 'href' || SAFE_HREF_PATTERN.test( attr.value.trim() ) )
+			);
+
+			if ( ! allowed ) {
+				elm.removeAttribute( attr.name );
+			}
+		}
+
+		if ( tag === 'a' && elm.hasAttribute( 'href' ) ) {
+			elm.setAttribute( 'rel', 'noopener noreferrer' );
+		}
+	}
+}
@@ -3,6 +3,7 @@ import {
 } from '@lezer/common';
 
 import {
+    ChangeSpec,
     Range,
     RangeSetBuilder,
     EditorState,
@@ -23,11 +24,25 @@ import {
 
 import { syntaxTree } from '@codemirror/language';
 
+import { editorViewField } from 'obsidian';
+
 import ImageCaptionPlugin from './main';
 import {
+    CaptionPosition,
+    CaptionSource,
+    ImageAlign,
+    EmbedType,
     ImageSize,
     ParsedCaption,
     parseCaptionText,
+    parseFrontmatterCaptions,
+    frontmatterCaption,
+    continuesFigure,
+    nextSection,
+    sectionNumber,
+    isImageSrc,
+    replaceCaptionText,
+    captionConflict,
     addCaption,
     setSize,
     updateFigureIndices,
@@ -44,8 +59,19 @@ import {
  * + nodes: List of nodes representing the entire image.
  * + src: Image source URI
  * + caption: Image caption, if it exists
- * + size: A size object of {width: number, height: number} of the desired dimensions,
+ * + caption_source: Where the caption comes from, if it exists.
+ * + size: A size object of the desired dimensions, with units,
  *         if it exists.
+ * + label: Label used to reference the image, if it exists.
+ * + section: Number of the section containing the image, e.g. 2.1,
+ *     empty before the first heading.
+ * + kind: Name of the image's figure kind, if it has one.
+ * + position: Where the caption is placed, if overridden for the image.
+ * + align: How the image is aligned, if it exists.
+ * + id: Id from the image's attribute block, if it exists.
+ * + classes: Classes from the image's attribute block.
+ * + attributes: Key-value pairs from the image's attribute block.
+ * + grouped: Whether the image is a subfigure of the same figure as the previous image.
  * + embed_type: String indicating the type of embed.
  *     Values are ['internal', 'external']
  */
@@ -53,18 +79,20 @@ export interface ParsedImage {
     nodes: SyntaxNodeRef[];
     src: string;
     caption?: string;
+    caption_source?: CaptionSource;
     size?: ImageSize;
+    label?: string;
+    section: string;
+    kind?: string;
+    position?: CaptionPosition;
+    align?: ImageAlign;
+    id?: string;
+    classes: string[];
+    attributes: Record<string, string>;
+    grouped: boolean;
     embed_type: EmbedType;
 }
 
-/**
- * Type of embed.
- */
-export enum EmbedType {
-    Internal = 'internal',
-    External = 'external',
-}
-
 /**
  * Id of the `node.type.props` storing relevant information.
  */
@@ -87,6 +115,27 @@ function nodes_text(nodes: SyntaxNodeRef[], state: EditorState): string {
     ).toString();
 }
 
+/**
+ * @param {EditorState} state - Editor state of a note.
+ * @returns {string} Frontmatter block at the start of the note,
+ *     or an empty string if the note has none.
+ */
+function frontmatter_text(state: EditorState): string {
+    const doc = state.doc;
+    if ( doc.line(1).text.trimEnd() !== '---' ) {
+        return '';
+    }
+
+    for ( let num = 2; num <= doc.lines; num++ ) {
+        const line = doc.line(num);
+        if ( line.text.trimEnd() === '---' ) {
+            return state.sliceDoc(0, line.to);
+        }
+    }
+
+    return '';
+}
+
 /**
  * @param {SyntaxNodeRef} node - Node to get properties of.
  * @returns {string[]} Array of the node's props.
@@ -178,6 +227,34 @@ function node_is_image_end(node: SyntaxNodeRef, nodes: SyntaxNodeRef[]): boolean
     return (num_markers == 2); 
 }
 
+/**
+ * @param {SyntaxNodeRef} node - Node to check.
+ * @return {number | null} Level of the heading the node starts,
+ *     or null if the node does not start a heading.
+ */
+function node_heading_level(node: SyntaxNodeRef): number | null {
+    if ( ! node_has_prop('formatting-header', node) ) {
+        return null;
+    }
+
+    for ( let level = 1; level <= 6; level++ ) {
+        if ( node_has_prop(`header-${level}`, node) ) {
+            return level;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * @param {SyntaxNodeRef} node - Node to check.
+ * @return {boolean} Whether the node is part of inline code or a code block.
+ */
+function node_is_code(node: SyntaxNodeRef): boolean {
+    const prop_ids = ['inline-code', 'formatting-code', 'hmd-codeblock', 'formatting-code-block'];
+    return prop_ids.some( prop_id => node_has_prop(prop_id, node) );
+}
+
 /**
  * @param {SyntaxNodeRef} node - Node to check.
  * @return {boolean} Whether the node has alt text.
@@ -244,9 +321,21 @@ export class StateParser {
         const tree = syntaxTree(state);
         const images: ParsedImage[] = [];
         let embed_type: EmbedType;
+        let sections: number[] = [];
+        const fm_captions = parseFrontmatterCaptions( frontmatter_text(state) );
+        const source_path = state.field(editorViewField, false)?.file?.path ?? '';
 
         tree.iterate({
             enter: (node: SyntaxNodeRef): boolean => {
+                const heading_level = node_heading_level(node);
+                if ( heading_level !== null ) {
+                    if ( heading_level <= this.plugin.settings.sectionLevel ) {
+                        sections = nextSection(sections, heading_level);
+                    }
+
+                    return false;
+                }
+
                 let nodes;
                 if ( node_is_embed_start(node) ) {
                     console.debug(node);
@@ -263,6 +352,11 @@ export class StateParser {
                 }
 
                 const src = this.parse_nodes_src( nodes, state );
+                if ( embed_type === EmbedType.Internal && ! isImageSrc(src) ) {
+                    // embedded note, heading, or other file
+                    return false;
+                }
+
                 let caption_info = this.parse_nodes_caption( nodes, state );
                 if ( ! caption_info ) {
                     caption_info = {
@@ -271,11 +365,35 @@ export class StateParser {
                     };
                 }
 
+                // captions in the embed take precedence over the frontmatter
+                let caption = caption_info.text;
+                let caption_source = caption ? CaptionSource.AltText : undefined;
+                if ( ! caption ) {
+                    caption = frontmatterCaption( fm_captions, src, caption_info.id );
+                    caption_source = caption ? CaptionSource.Frontmatter : undefined;
+                }
+
+                if ( ! caption && embed_type === EmbedType.Internal ) {
+                    // read in the background, listeners are notified once available
+                    caption = this.plugin.metadata_captions.get( src, source_path );
+                    caption_source = caption ? CaptionSource.Metadata : undefined;
+                }
+
                 const image: ParsedImage = {
                     nodes,
                     src,
-                    caption: caption_info.text,
+                    caption,
+                    caption_source,
                     size: caption_info.size,
+                    label: caption_info.label,
+                    section: sectionNumber(sections),
+                    kind: caption_info.kind,
+                    position: caption_info.position,
+                    align: caption_info.align,
+                    id: caption_info.id,
+                    classes: caption_info.classes ?? [],
+                    attributes: caption_info.attributes ?? {},
+                    grouped: false,
                     embed_type
                 };
 
@@ -284,6 +402,18 @@ export class StateParser {
             }
         });
 
+        // subfigures
+        const by_paragraph = this.plugin.noteSettings(source_path).subfigures;
+        images.forEach( (image, index) => {
+            const previous = images[index - 1];
+            image.grouped = !!previous && continuesFigure(
+                previous.attributes.group,
+                image.attributes.group,
+                state.sliceDoc(previous.nodes.at(-1).to, image.nodes.at(0).from),
+                by_paragraph
+            );
+        } );
+
         return images;
     }
 
@@ -344,7 +474,88 @@ export class StateParser {
         }
 
         const alt_text = state.sliceDoc( alt_nodes.at(0).from, alt_nodes.at(-1).to );
-        const delimeter = this.plugin.settings.delimeter;
-        return parseCaptionText( alt_text, delimeter );
+        return parseCaptionText( alt_text, this.delimeter(state), this.plugin.kindNames() );
+    }
+
+    /**
+     * @param {EditorState} state - Current editor state.
+     * @param {number} pos - Position in the document.
+     * @returns {boolean} Whether the position is in inline code or a code block.
+     */
+    in_code(state: EditorState, pos: number): boolean {
+        return node_is_code( syntaxTree(state).resolveInner(pos, 1) );
+    }
+
+    /**
+     * @param {EditorState} state - Current editor state.
+     * @returns {string[]} Caption delimeter(s) of the note being edited.
+     */
+    delimeter(state: EditorState): string[] {
+        const source_path = state.field(editorViewField, false)?.file?.path ?? '';
+        return this.plugin.noteSettings(source_path).delimeter;
+    }
+
+    /**
+     * @param {ParsedImage} image - Parsed image.
+     * @returns {{from: number, to: number} | null} Document range of the image's alt text,
+     *     or null if it has none.
+     */
+    alt_text_range(image: ParsedImage): {from: number, to: number} | null {
+        const alt_nodes = image.nodes.filter(node_is_alt_text);
+        if ( ! alt_nodes.length ) {
+            return null;
+        }
+
+        return { from: alt_nodes.at(0).from, to: alt_nodes.at(-1).to };
+    }
+
+    /**
+     * Creates the change replacing the caption of an image,
+     * keeping the rest of its alt text.
+     * 
+     * @param {ParsedImage} image - Image to change the caption of.
+     * @param {string} caption - New caption text.
+     * @param {EditorState} state - Current editor state.
+     * @returns {ChangeSpec | null} Change to the image's alt text,
+     *     or null if the caption can not be changed.
+     */
+    caption_change(
+        image: ParsedImage,
+        caption: string,
+        state: EditorState
+    ): ChangeSpec | null {
+        const delimeter = this.delimeter(state);
+        const kinds = this.plugin.kindNames();
+        if ( captionConflict(caption, image.embed_type, delimeter) !== null ) {
+            return null;
+        }
+
+        const alt_range = this.alt_text_range(image);
+        if ( alt_range ) {
+            const { from, to } = alt_range;
+            const alt_text = replaceCaptionText( state.sliceDoc(from, to), caption, delimeter, kinds );
+            if ( alt_text === null ) {
+                return null;
+            }
+
+            return { from, to, insert: alt_text };
+        }
+
+        // no alt text yet
+        const alt_text = replaceCaptionText( '', caption, delimeter, kinds );
+        if ( alt_text === null ) {
+            return null;
+        }
+
+        if ( image.embed_type === EmbedType.Internal ) {
+            // before the closing brackets
+            const pos = image.nodes.at(-1).from;
+            const sep = state.sliceDoc(pos - 1, pos) === '|' ? '' : '|';
+            return { from: pos, insert: sep + alt_text };
+        }
+
+        // between the opening brackets
+        const pos = image.nodes.at(0).from + nodes_text(image.nodes, state).indexOf('[') + 1;
+        return { from: pos, insert: alt_text };
     }
 }
@@ -20,10 +20,40 @@ import {
     DecorationSet
 } from '@codemirror/view';
 
+import {
+    EventRef,
+    MarkdownRenderChild,
+    Notice,
+    editorLivePreviewField,
+    editorViewField
+} from 'obsidian';
+
 import ImageCaptionPlugin from './main';
-import { closestSibling, addCaption, setSize } from './common';
-import { StateParser, ParsedImage, EmbedType } from './state_parser';
+import {
+    closestSibling,
+    addCaption,
+    applyCaptionTemplate,
+    registerCaptionLinks,
+    setSize,
+    setAlignment,
+    setFigureAttributes,
+    formatSize,
+    formatReference,
+    setCaptionLabel,
+    subfigureLetters,
+    figureGroup,
+    groupCaption,
+    templateGenerates,
+    captionConflict,
+    CaptionSource,
+    EmbedType,
+    CaptionPosition,
+    REFERENCE_PATTERN
+} from './common';
+import { StateParser, ParsedImage } from './state_parser';
 import { ImageIndexWidget } from './index_widget';
+import { FigureCaptionWidget } from './caption_widget';
+import { FigureReferenceWidget } from './reference_widget';
 
 // *******************
 // *** View Plugin ***
@@ -41,15 +71,46 @@ export function ViewObserverFactory(plugin: ImageCaptionPlugin) {
     return class ImageCaptionParser implements PluginValue {
         parser: StateParser;
         image_info: ParsedImage[];
+        fig_nums: string[];
+        subfigures: string[];
         observers: MutationObserver[];
+        caption_children: MarkdownRenderChild[];
+        source_path: string;
         decorations: DecorationSet;
+        view: EditorView;
+        metadata_ref: EventRef;
+        settings_ref: EventRef;
+        options_ref: EventRef;
+        note_settings: string;
 
         constructor( view: EditorView ) {
+            this.view = view;
+            this.metadata_ref = plugin.figure_events.on(
+                ImageCaptionPlugin.metadata_loaded_event,
+                () => this.refresh()
+            );
+
+            // settings changes leave the document unchanged, so do not update the view by themselves
+            this.options_ref = plugin.figure_events.on(
+                ImageCaptionPlugin.settings_changed_event,
+                () => this.refresh()
+            );
+
+            // frontmatter settings are only known once the metadata cache has caught up with the edit
+            this.settings_ref = plugin.app.metadataCache.on('changed', (file) => {
+                if ( file.path === this.source_path && this.note_settings_changed() ) {
+                    this.refresh();
+                }
+            });
+
             this.parser = new StateParser(plugin);
             this.observers = [];
+            this.caption_children = [];
 
             this.image_info = this.parser.parse(view.state);
-            this.decorations = this.mark_images(this.image_info);
+            this.number_figures(view.state);
+            this.publish_figures(view.state);
+            this.decorations = this.build_decorations(view, this.image_info);
             this.register_observers(view, this.image_info);
         }
 
@@ -58,26 +119,140 @@ export function ViewObserverFactory(plugin: ImageCaptionPlugin) {
          */
         update(update: ViewUpdate) {
             this.image_info = this.parser.parse(update.state);
-            if (update.docChanged) {
-                this.decorations = this.mark_images(this.image_info);
-                this.register_observers(update.view, this.image_info);
+            this.number_figures(update.state);
+            if (update.docChanged || this.source_path !== state_source_path(update.state)) {
+                this.publish_figures(update.state);
             }
-            else if (update.viewportChanged) {
+
+            const mode_changed = (
+                is_live_preview(update.startState) !== is_live_preview(update.state)
+            );
+
+            if (update.docChanged || update.viewportChanged || update.selectionSet || mode_changed) {
+                // references are revealed when the selection touches them
+                this.decorations = this.build_decorations(update.view, this.image_info);
+            }
+
+            if (update.docChanged || update.viewportChanged) {
                 this.register_observers(update.view, this.image_info);
             }
         }
 
         destroy() {
+            plugin.figure_events.offref(this.metadata_ref);
+            plugin.figure_events.offref(this.options_ref);
+            plugin.app.metadataCache.offref(this.settings_ref);
             this.clear_observers();
+            this.clear_caption_children();
+            if ( this.source_path ) {
+                // the file may change outside the editor once closed
+                plugin.clearFigures(this.source_path);
+            }
+        }
+
+        /**
+         * Reparses the document and recaptions its images,
+         * e.g. once an image's metadata caption has been read.
+         */
+        refresh() {
+            const state = this.view.state;
+            this.image_info = this.parser.parse(state);
+            this.number_figures(state);
+            this.publish_figures(state);
+            this.register_observers(this.view, this.image_info);
+
+            // caption widgets and references are redrawn by an update of the view
+            this.decorations = this.build_decorations(this.view, this.image_info);
+            this.view.dispatch({});
+        }
+
+        /**
+         * Records the settings of the note.
+         * 
+         * @returns {boolean} Whether the settings changed since last checked.
+         */
+        note_settings_changed(): boolean {
+            const settings = JSON.stringify(plugin.noteSettings(this.source_path));
+            const changed = settings !== this.note_settings;
+            this.note_settings = settings;
+            return changed;
+        }
+
+        /**
+         * Assigns figure numbers and subfigure letters to the parsed images
+         * using the numbering settings of the note.
+         * 
+         * @param {EditorState} state - Current editor state.
+         */
+        number_figures(state: EditorState) {
+            this.fig_nums = plugin.figureNumbers(state_source_path(state), this.image_info);
+            this.subfigures = subfigureLetters(this.image_info);
+        }
+
+        /**
+         * @param {number} img_index - Index of the image in the document.
+         * @returns {string} Figure number of the image, including its subfigure letter.
+         */
+        figure_number(img_index: number): string {
+            return this.fig_nums[img_index] + this.subfigures[img_index];
+        }
+
+        /**
+         * Shares the figures of the document with the plugin,
+         * so they can be listed outside the editor.
+         * 
+         * @param {EditorState} state - Current editor state.
+         */
+        publish_figures(state: EditorState) {
+            const source_path = state_source_path(state);
+            if ( this.source_path && this.source_path !== source_path ) {
+                // the editor switched to another note
+                plugin.clearFigures(this.source_path);
+            }
+
+            this.source_path = source_path;
+            this.note_settings_changed();
+            if ( ! this.source_path ) {
+                return;
+            }
+
+            const figures = this.image_info.map( (img, index) => ({
+                src: img.src,
+                caption: plugin.templateCaption(img.caption, img.src, this.source_path, this.figure_number(index)),
+                kind: img.kind,
+                label: img.label,
+                fig_num: this.figure_number(index),
+                line: state.doc.lineAt(img.nodes.at(0).from).number - 1,
+                embed_type: img.embed_type
+            }) );
+
+            plugin.setFigures(this.source_path, figures);
+        }
+
+        /**
+         * Creates all decorations.
+         * 
+         * @param {EditorView} view - CodeMirror editor view.
+         * @param {ParsedImage[]} images - List of parsed images.
+         * @returns {DecorationSet} Image marker, caption and figure reference decorations.
+         */
+        build_decorations(view: EditorView, images: ParsedImage[]): DecorationSet {
+            const decos = [
+                ...this.mark_images(images),
+                ...this.mark_captions(view, images),
+                ...this.mark_references(view, images)
+            ];
+
+            return Decoration.set(decos, true);
         }
 
         /**
          * Creates image marker decorations.
          * 
          * @param {ParsedImage[]} images - List of parsed images.
-         * @returns {DecorationSet} Decoration to mark images.
+         * @returns {Range<Decoration>[]} Decorations to mark images.
          */
-        mark_images(images: ParsedImage[]): DecorationSet {
+        mark_images(images: ParsedImage[]): Range<Decoration>[] {
             const decos = [];
             for (let i = 0; i < images.length; i++) {
                 const img = images[i];
@@ -90,43 +265,200 @@ export function ViewObserverFactory(plugin: ImageCaptionPlugin) {
                 decos.push(dec.range(pos));
             }
 
-            return Decoration.set(decos);
+            return decos;
+        }
+
+        /**
+         * Creates caption widgets in live preview,
+         * for externally embedded images and for figures with subfigures.
+         * Obsidian renders external images directly in the line,
+         * so their captions can not be added to a container as for internal embeds.
+         * Likewise subfigures can not be wrapped together without changing the line.
+         * 
+         * @param {EditorView} view - CodeMirror editor view.
+         * @param {ParsedImage[]} images - List of parsed images.
+         * @returns {Range<Decoration>[]} Caption widget decorations.
+         */
+        mark_captions(view: EditorView, images: ParsedImage[]): Range<Decoration>[] {
+            if ( ! is_live_preview(view.state) ) {
+                return [];
+            }
+
+            const format = plugin.captionFormat(this.source_path);
+            const template = plugin.captionTemplate(this.source_path);
+            const decos: Range<Decoration>[] = [];
+            images.forEach( (info, img_index) => {
+                const position = info.position ?? plugin.settings.captionPosition;
+                const letter = this.subfigures[img_index];
+                const external = info.embed_type === EmbedType.External;
+                if ( external && (info.caption || templateGenerates(template) || letter) ) {
+                    const variables = plugin.templateVariables(info.src, this.source_path, this.figure_number(img_index));
+                    const widget = new FigureCaptionWidget(
+                        img_index,
+                        applyCaptionTemplate(template, info.caption, variables) ?? info.caption ?? '',
+                        format,
+                        this.source_path,
+                        position,
+                        letter
+                            ? plugin.subfigureLabel(letter)
+                            : plugin.captionLabel(this.source_path, this.fig_nums[img_index], info.kind),
+                        this.figure_number(img_index),
+                        info.kind,
+                        (caption) => {
+                            registerCaptionLinks(caption, plugin.app, this.source_path);
+                            if ( info.caption_source === CaptionSource.AltText ) {
+                                this.register_caption_editing(caption, img_index);
+                            }
+                        }
+                    );
+
+                    decos.push(this.caption_decoration(widget, info, position));
+                }
+
+                const group = letter ? figureGroup(images, img_index) : [];
+                if ( group.at(-1) === img_index ) {
+                    // the shared caption follows the last subfigure, or precedes the first
+                    const first = images[group[0]];
+                    const widget = new FigureCaptionWidget(
+                        group[0],
+                        groupCaption(group.map( index => images[index].attributes )) ?? '',
+                        format,
+                        this.source_path,
+                        position,
+                        plugin.captionLabel(this.source_path, this.fig_nums[group[0]], first.kind),
+                        this.fig_nums[group[0]],
+                        first.kind,
+                        (caption) => {
+                            caption.addClass('image-caption-group');
+                            registerCaptionLinks(caption, plugin.app, this.source_path);
+                        }
+                    );
+
+                    const before = position === CaptionPosition.Above || position === CaptionPosition.Left;
+                    decos.push(this.caption_decoration(widget, before ? first : info, position, 1));
+                }
+            } );
+
+            return decos;
+        }
+
+        /**
+         * Places a caption widget before or after its image.
+         * 
+         * @param {FigureCaptionWidget} widget - Caption widget.
+         * @param {ParsedImage} info - Parsed information of the captioned image.
+         * @param {CaptionPosition} position - Where the caption is placed.
+         * @param {number} [depth=0] - Distance of the caption from the image,
+         *     so shared captions are placed outside those of the subfigures.
+         * @returns {Range<Decoration>} Caption widget decoration.
+         */
+        caption_decoration(
+            widget: FigureCaptionWidget,
+            info: ParsedImage,
+            position: CaptionPosition,
+            depth = 0
+        ): Range<Decoration> {
+            // captions are placed outside the image marker
+            if ( position === CaptionPosition.Above || position === CaptionPosition.Left ) {
+                return Decoration.widget({ widget, side: -10000 - depth }).range(info.nodes.at(0).from);
+            }
+
+            return Decoration.widget({ widget, side: 10000 + depth }).range(info.nodes.at(-1).to);
+        }
+
+        /**
+         * Creates decorations replacing figure references with links to the figure.
+         * References are only replaced in live preview and outside of code,
+         * and are left as text while selected for editing.
+         * Only the visible part of the document is searched.
+         * 
+         * @param {EditorView} view - CodeMirror editor view.
+         * @param {ParsedImage[]} images - List of parsed images.
+         * @returns {Range<Decoration>[]} Decorations replacing references.
+         */
+        mark_references(view: EditorView, images: ParsedImage[]): Range<Decoration>[] {
+            const state = view.state;
+            if ( ! is_live_preview(state) ) {
+                return [];
+            }
+
+            const targets = new Map<string, {fig_num: string, kind?: string, pos: number}>();
+            images.forEach( (img, index) => {
+                if ( img.label && ! targets.has(img.label) ) {
+                    targets.set(img.label, {fig_num: this.figure_number(index), kind: img.kind, pos: img.nodes.at(0).from});
+                }
+            } );
+
+            if ( ! targets.size ) {
+                return [];
+            }
+
+            const decos = [];
+            for ( const visible of view.visibleRanges ) {
+                const text = state.sliceDoc(visible.from, visible.to);
+                for ( const match of text.matchAll(REFERENCE_PATTERN) ) {
+                    const label = match[1];
+                    const target = targets.get(label);
+                    if ( ! target ) {
+                        continue;
+                    }
+
+                    const from = visible.from + match.index;
+                    const to = from + match[0].length;
+                    const selected = state.selection.ranges.some(
+                        range => (range.from <= to && range.to >= from)
+                    );
+                    if ( selected || this.parser.in_code(state, from) ) {
+                        continue;
+                    }
+
+                    const dec = Decoration.replace( {
+                        widget: new FigureReferenceWidget(
+                            label,
+                            formatReference(plugin.referenceLabel(target.kind), target.fig_num),
+                            target.pos
+                        )
+                    } );
+
+                    decos.push(dec.range(from, to));
+                }
+            }
+
+            return decos;
         }
 
         /**
-         * Register observers for each view.
+         * Register observers for each editor view.
+         * The reading view is captioned by the markdown post processors
+         * in `reader_observer`.
          * 
          * @param {EditorView} view - CodeMirror editor view.
          * @param {ParsedImage[]} images - Parsed images from the document.
          */
         register_observers(view: EditorView, images: ParsedImage[]) {
-            const {preview, source, reading} = this.parse_views(view.root);
+            const {preview, source} = this.parse_views(view.root);
             if (preview) {
                 this.register_preview_observers(preview, images);
             }
             if (source) {
                 this.register_source_observers(source, images);
             }
-            if (reading) {
-                this.register_reading_observers(reading, images);
-            }
         }
 
         /**
          * Parses the root document into its view components.
          * 
          * @param {Element} root - Root element of the document.
-         * @returns {{preview: Element, source: Element, reading: Element}}
+         * @returns {{preview: Element, source: Element}}
          *     Root element of each view.
          */
         parse_views(
             root: Element
-        ): {preview: Element, source: Element, reading: Element} {
+        ): {preview: Element, source: Element} {
             const preview = root.querySelector('.markdown-source-view.is-live-preview');
             const source = root.querySelector('.markdown-source-view:not(.is-live-preview');
-            const reading = root.querySelector('.markdown-reading-view');
 
-            return {preview, source, reading};
+            return {preview, source};
         }
 
         /**
@@ -136,11 +468,12 @@ export function ViewObserverFactory(plugin: ImageCaptionPlugin) {
          * @param {ParsedImages[]} images - Parsed images.
          */
         register_preview_observers(root: Element, images: ParsedImage[]) {
-            // clear previous captions
+            // clear previous captions, those of widgets are managed by the editor
             const prev_caps = root.querySelectorAll(
-                `.${ImageCaptionPlugin.caption_class}`
+                `.${ImageCaptionPlugin.caption_class}:not(.image-caption-widget)`
             );
             prev_caps.forEach( cap => cap.remove() );
+            this.clear_caption_children();
 
             const markers = root.querySelectorAll('.image-caption-data');
             markers.forEach( marker => {
@@ -148,38 +481,214 @@ export function ViewObserverFactory(plugin: ImageCaptionPlugin) {
                 const info = this.image_info[img_index];
                 const embed_type = info.embed_type;
                 
+                let img_wrap;
                 if (embed_type === EmbedType.Internal) {
-                    const img_wrap = closestSibling(
+                    img_wrap = closestSibling(
                         marker,
                         '.internal-embed.image-embed.is-loaded',
                         -1
-                    );
-
-                    if ( ! img_wrap ) {
-                        console.debug(`image container not found for mark ${img_index}`);
-                        return;
-                    }
-
-                    if ( info.caption ) {
-                        const cap = addCaption(img_wrap, info.caption);
-                        // const fig_num = img_index.toString()
-                        const fig_num = img_index + 1;
-                        cap.containerEl.setAttribute('data-image-caption-fignum', fig_num.toString());
-                    }
-
-                    if ( info.size ) {
-                        setSize( img_wrap, info.size );
-                    }
+                    ) as HTMLElement;
                 }
                 else if (embed_type === EmbedType.External) {
-
+                    // captioned by widgets, so only the image itself is styled
+                    img_wrap = closestSibling(marker, 'img:not(.cm-widgetBuffer)', -1) as HTMLElement;
+                    if ( img_wrap?.getAttribute('src') !== info.src ) {
+                        // marker does not belong to this image
+                        img_wrap = null;
+                    }
                 }
                 else {
                     throw new Error(`Invalid embed type ${embed_type}.`);
                 }
+
+                if ( ! img_wrap ) {
+                    console.debug(`image container not found for mark ${img_index}`);
+                    return;
+                }
+
+                if (embed_type === EmbedType.Internal) {
+                    this.caption_image(img_wrap, info, img_index);
+                }
+                this.format_image(img_wrap, info);
             } );
+        }
+
+        /**
+         * Adds the caption to an image container.
+         * 
+         * @param {HTMLElement} img_wrap - Container of the image.
+         * @param {ParsedImage} info - Parsed image information.
+         * @param {number} img_index - Index of the image in the document.
+         */
+        caption_image(img_wrap: HTMLElement, info: ParsedImage, img_index: number) {
+            const letter = this.subfigures[img_index];
+            const template = plugin.captionTemplate(this.source_path);
+            if ( info.caption || templateGenerates(template) || letter ) {
+                const cap = addCaption(
+                    img_wrap,
+                    info.caption ?? '',
+                    plugin.captionFormat(this.source_path),
+                    this.source_path,
+                    info.position ?? plugin.settings.captionPosition,
+                    template,
+                    plugin.templateVariables(info.src, this.source_path, this.figure_number(img_index))
+                );
+
+                cap.load();
+                this.caption_children.push(cap);
+                registerCaptionLinks(cap.containerEl, plugin.app, this.source_path);
+                if ( info.caption_source === CaptionSource.AltText ) {
+                    // only captions written in the embed can be edited in place
+                    this.register_caption_editing(cap.containerEl, img_index);
+                }
+                cap.containerEl.setAttribute('data-image-caption-fignum', this.figure_number(img_index));
+                setCaptionLabel(
+                    cap.containerEl,
+                    letter
+                        ? plugin.subfigureLabel(letter)
+                        : plugin.captionLabel(this.source_path, this.fig_nums[img_index], info.kind)
+                );
+                if ( info.kind ) {
+                    cap.containerEl.setAttribute('data-image-caption-kind', info.kind);
+                }
+            }
+        }
 
+        /**
+         * Sets the label, size, alignment and attributes of an image.
+         * 
+         * @param {HTMLElement} img_wrap - Container of the image, or the image itself.
+         * @param {ParsedImage} info - Parsed image information.
+         */
+        format_image(img_wrap: HTMLElement, info: ParsedImage) {
+            if ( info.label ) {
+                img_wrap.setAttribute('data-image-caption-label', info.label);
+            }
+            else {
+                img_wrap.removeAttribute('data-image-caption-label');
+            }
+
+            if ( info.size ) {
+                setSize( img_wrap, info.size );
+            }
 
+            setAlignment( img_wrap, info.align );
+            setFigureAttributes( img_wrap, info.id, info.classes );
+        }
+
+        /**
+         * Lets a caption be edited in place by clicking it.
+         * The edit is committed with Enter or by leaving the caption,
+         * and cancelled with Escape.
+         * 
+         * @param {HTMLElement} caption - Caption element.
+         * @param {number} img_index - Index of the image in the document.
+         */
+        register_caption_editing(caption: HTMLElement, img_index: number) {
+            caption.addClass('image-caption-editable');
+
+            // keep the editor from moving the cursor into the embed, revealing its source
+            caption.addEventListener('mousedown', (evt: MouseEvent) => {
+                if ( ! (evt.target as HTMLElement).closest('a') ) {
+                    evt.stopPropagation();
+                }
+            });
+
+            caption.addEventListener('click', (evt: MouseEvent) => {
+                const text_el = caption.querySelector(`.${ImageCaptionPlugin.caption_text_class}`) as HTMLElement;
+                if ( ! text_el || text_el.isContentEditable || (evt.target as HTMLElement).closest('a') ) {
+                    return;
+                }
+
+                evt.preventDefault();
+                evt.stopPropagation();
+                this.edit_caption(text_el, img_index);
+            });
+        }
+
+        /**
+         * Replaces a rendered caption with its editable source text.
+         * The caption's label is kept as is.
+         * 
+         * @param {HTMLElement} caption - Caption text element.
+         * @param {number} img_index - Index of the image in the document.
+         */
+        edit_caption(caption: HTMLElement, img_index: number) {
+            const info = this.image_info[img_index];
+            if ( ! info ) {
+                return;
+            }
+
+            const rendered = Array.from(caption.childNodes);
+            caption.empty();
+            caption.innerText = info.caption ?? '';
+            caption.contentEditable = 'true';
+            caption.addClass('image-caption-editing');
+            caption.focus();
+            document.getSelection()?.selectAllChildren(caption);
+
+            let done = false;
+            const finish = (commit: boolean) => {
+                if ( done ) {
+                    return;
+                }
+
+                done = true;
+                caption.removeEventListener('keydown', on_keydown);
+                caption.removeEventListener('blur', on_blur);
+                caption.contentEditable = 'false';
+                caption.removeClass('image-caption-editing');
+
+                const text = caption.innerText.replace(/\s*\n\s*/g, ' ').trim();
+                const changed = commit && text !== info.caption && this.commit_caption(img_index, text);
+                if ( ! changed ) {
+                    caption.empty();
+                    caption.append(...rendered);
+                }
+            };
+
+            // listeners only last for this edit, as the caption may be edited again
+            const on_keydown = (evt: KeyboardEvent) => {
+                // keep keys from reaching the editor
+                evt.stopPropagation();
+                if ( evt.key === 'Enter' && ! evt.shiftKey ) {
+                    evt.preventDefault();
+                    finish(true);
+                }
+                else if ( evt.key === 'Escape' ) {
+                    evt.preventDefault();
+                    finish(false);
+                }
+            };
+            const on_blur = () => finish(true);
+
+            caption.addEventListener('keydown', on_keydown);
+            caption.addEventListener('blur', on_blur);
+        }
+
+        /**
+         * Writes an edited caption back into the alt text of its image.
+         * 
+         * @param {number} img_index - Index of the image in the document.
+         * @param {string} text - New caption text.
+         * @returns {boolean} Whether the caption was changed.
+         */
+        commit_caption(img_index: number, text: string): boolean {
+            const state = this.view.state;
+            const info = this.image_info[img_index];
+            const conflict = info ? captionConflict(text, info.embed_type, this.parser.delimeter(state)) : null;
+            if ( conflict !== null ) {
+                new Notice(`Captions of this image can not contain "${conflict}".`);
+                return false;
+            }
+
+            const changes = info ? this.parser.caption_change(info, text, state) : null;
+            if ( ! changes ) {
+                return false;
+            }
+
+            this.view.dispatch({ changes, userEvent: 'input.image-caption' });
+            return true;
         }
 
         /**
@@ -189,17 +698,60 @@ export function ViewObserverFactory(plugin: ImageCaptionPlugin) {
          * @param {ParsedImages[]} images - Parsed images.
          */
         register_source_observers(root: Element, images: ParsedImage[]) {
-            
+            // clear previous previews
+            const prev_previews = root.querySelectorAll('.image-caption-source-preview');
+            prev_previews.forEach( preview => preview.remove() );
+
+            if ( ! plugin.settings.sourcePreview ) {
+                return;
+            }
+
+            const markers = root.querySelectorAll('.image-caption-data');
+            markers.forEach( marker => {
+                const img_index = parseInt(marker.getAttribute('data-image-caption-index'));
+                const info = images[img_index];
+                if ( ! info ) {
+                    return;
+                }
+
+                marker.appendChild( this.source_preview(info, img_index) );
+            } );
         }
 
         /**
-         * Register observers for the reading view.
+         * Creates the preview of an image's figure number and caption
+         * shown in the source view.
          * 
-         * @param {Element} root - Root of the reading view.
-         * @param {ParsedImages[]} images - Parsed images.
+         * @param {ParsedImage} info - Parsed image information.
+         * @param {number} img_index - Index of the image in the document.
+         * @returns {HTMLElement} Preview element.
          */
-        register_reading_observers(root: Element, images: ParsedImage[]) {
-            
+        source_preview(info: ParsedImage, img_index: number): HTMLElement {
+            const preview = document.createElement('span');
+            preview.addClass('image-caption-source-preview');
+
+            const fig_num = document.createElement('span');
+            fig_num.addClass('image-caption-source-fignum');
+            fig_num.innerText = info.kind
+                ? `${info.kind} #${this.figure_number(img_index)}`
+                : `#${this.figure_number(img_index)}`;
+            preview.appendChild(fig_num);
+
+            if ( info.caption ) {
+                const caption = document.createElement('span');
+                caption.addClass('image-caption-source-text');
+                caption.innerText = info.caption;
+                preview.appendChild(caption);
+            }
+
+            if ( info.size ) {
+                const size = document.createElement('span');
+                size.addClass('image-caption-source-size');
+                size.innerText = formatSize(info.size);
+                preview.appendChild(size);
+            }
+
+            return preview;
         }
 
         /**
@@ -208,10 +760,35 @@ export function ViewObserverFactory(plugin: ImageCaptionPlugin) {
         clear_observers() {
 
         }
+
+        /**
+         * Unloads the components of all captions.
+         */
+        clear_caption_children() {
+            this.caption_children.forEach( child => child.unload() );
+            this.caption_children = [];
+        }
     };
 }
 
 
+/**
+ * @param {EditorState} state - Editor state of a note.
+ * @returns {string} Path of the note, or an empty string if not known.
+ */
+function state_source_path(state: EditorState): string {
+    return state.field(editorViewField, false)?.file?.path ?? '';
+}
+
+/**
+ * @param {EditorState} state - Editor state to check.
+ * @returns {boolean} Whether the editor is in live preview mode.
+ */
+function is_live_preview(state: EditorState): boolean {
+    return state.field(editorLivePreviewField, false) ?? false;
+}
+
+
 export function viewObserver(
     plugin: ImageCaptionPlugin
 ): Extension {